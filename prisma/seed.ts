@@ -1,13 +1,14 @@
 import { PrismaClient } from '@prisma/client';
 import { Decimal } from 'decimal.js';
 import bcrypt from 'bcryptjs';
-import { feeTierDefinitions, customCommissionStructures } from '../src/config';
+import { feeTierDefinitions, customCommissionStructures, referralConfig } from '../src/config';
 
 /**
  * Database Seed Script
  * 
  * Populates the database with initial data including:
  * - Fee tiers
+ * - The initial commission plan
  * - Sample users with different roles
  * - Sample referral relationships
  * - Sample trades and commissions
@@ -28,6 +29,7 @@ async function main() {
       await prisma.referralNetwork.deleteMany();
       await prisma.user.deleteMany();
       await prisma.feeTier.deleteMany();
+      await prisma.commissionPlan.deleteMany();
     }
 
     // 1. Create Fee Tiers
@@ -37,8 +39,10 @@ async function main() {
         prisma.feeTier.create({
           data: {
             name: tier.name,
+            tradeType: tier.tradeType,
             minimumVolume: tier.minimumVolume,
             feeRate: tier.feeRate,
+            makerFeeRate: 'makerFeeRate' in tier ? tier.makerFeeRate : null,
             description: tier.description,
             isActive: true,
             priority: tier.priority,
@@ -48,6 +52,17 @@ async function main() {
     );
     console.log(`✅ Created ${feeTiers.length} fee tiers`);
 
+    // Initial commission plan from the configured schedule
+    await prisma.commissionPlan.create({
+      data: {
+        version: 1,
+        levelRates: referralConfig.levelRates,
+        effectiveFrom: new Date(0),
+        description: 'Initial plan from configuration',
+      },
+    });
+    console.log('✅ Created commission plan v1');
+
     // 2. Create Sample Users
     console.log('👥 Creating sample users...');
     
@@ -253,6 +268,7 @@ async function main() {
         tokenType: 'USDC',
         commissionLevel: 1,
         rate: new Decimal(0.50),
+        planVersion: 1,
         earnerId: kol1.id,
         sourceUserId: user1.id,
         tradeId: trades[0].id,
@@ -266,6 +282,7 @@ async function main() {
         tokenType: 'USDC',
         commissionLevel: 1,
         rate: new Decimal(0.30),
+        planVersion: 1,
         earnerId: user1.id,
         sourceUserId: user2.id,
         tradeId: trades[1].id,
@@ -277,6 +294,7 @@ async function main() {
         tokenType: 'USDC',
         commissionLevel: 2,
         rate: new Decimal(0.05),
+        planVersion: 1,
         earnerId: kol1.id,
         sourceUserId: user2.id,
         tradeId: trades[1].id,
@@ -290,6 +308,7 @@ async function main() {
         tokenType: 'USDC',
         commissionLevel: 1,
         rate: new Decimal(0.30),
+        planVersion: 1,
         earnerId: user2.id,
         sourceUserId: user3.id,
         tradeId: trades[2].id,
@@ -301,6 +320,7 @@ async function main() {
         tokenType: 'USDC',
         commissionLevel: 2,
         rate: new Decimal(0.03),
+        planVersion: 1,
         earnerId: user1.id,
         sourceUserId: user3.id,
         tradeId: trades[2].id,
@@ -312,6 +332,7 @@ async function main() {
         tokenType: 'USDC',
         commissionLevel: 3,
         rate: new Decimal(0.02),
+        planVersion: 1,
         earnerId: kol1.id,
         sourceUserId: user3.id,
         tradeId: trades[2].id,
@@ -325,6 +346,7 @@ async function main() {
         tokenType: 'USDC',
         commissionLevel: 1,
         rate: new Decimal(0.40),
+        planVersion: 1,
         earnerId: kol2.id,
         sourceUserId: whale.id,
         tradeId: trades[3].id,
@@ -62,8 +62,9 @@ DEFAULT_LEVEL3_COMMISSION_RATE=0.02
 DEFAULT_FEE_DISCOUNT_RATE=0.10
 BASE_FEE_TIER_RATE=0.01
 
-# Webhook API Key
-WEBHOOK_API_KEY=nika-webhook-secret-key-$(openssl rand -base64 32)
+# Webhook Signing
+WEBHOOK_SIGNING_SECRET=nika-webhook-signing-secret-$(openssl rand -base64 32)
+WEBHOOK_SIGNATURE_TOLERANCE_SECONDS=300
 EOL
     echo "✅ Created .env file with secure secrets"
 else
@@ -1,5 +1,12 @@
 import { Decimal } from 'decimal.js';
-import { CommissionConfig, CustomCommissionStructure } from '../types';
+import {
+  AmbassadorTier,
+  CommissionCaps,
+  CommissionConfig,
+  CustomCommissionStructure,
+  ProductFeeSchedule,
+  SettlementConfig,
+} from '../types';
 
 // Environment Variables
 export const config = {
@@ -21,22 +28,120 @@ export const config = {
   },
 };
 
+// Webhook Configuration
+export const webhookConfig = {
+  // Shared secret used by upstream senders to sign webhook payloads (HMAC-SHA256)
+  signingSecret: process.env.WEBHOOK_SIGNING_SECRET || '',
+
+  // Maximum allowed clock skew between the signature timestamp and server time
+  signatureToleranceMs: parseInt(process.env.WEBHOOK_SIGNATURE_TOLERANCE_SECONDS || '300') * 1000,
+
+  // How often expired webhook nonces are deleted
+  noncePruneIntervalMs: parseInt(process.env.WEBHOOK_NONCE_PRUNE_INTERVAL_MS || '60000'),
+
+  // Maximum number of trades accepted by the batch ingestion endpoint
+  maxBatchSize: parseInt(process.env.WEBHOOK_MAX_BATCH_SIZE || '500'),
+
+  headers: {
+    signature: 'x-nika-signature',
+    timestamp: 'x-nika-timestamp',
+    nonce: 'x-nika-nonce',
+  },
+};
+
+// Asynchronous Trade Ingestion (inbox worker)
+export const ingestionConfig = {
+  pollIntervalMs: parseInt(process.env.TRADE_INGESTION_POLL_INTERVAL_MS || '1000'),
+  batchSize: parseInt(process.env.TRADE_INGESTION_BATCH_SIZE || '50'),
+
+  // Retries back off exponentially: baseRetryDelayMs * 2^(attempt - 1), capped at maxRetryDelayMs
+  maxAttempts: parseInt(process.env.TRADE_INGESTION_MAX_ATTEMPTS || '8'),
+  baseRetryDelayMs: parseInt(process.env.TRADE_INGESTION_BASE_RETRY_DELAY_MS || '1000'),
+  maxRetryDelayMs: parseInt(process.env.TRADE_INGESTION_MAX_RETRY_DELAY_MS || '300000'),
+
+  // Entries stuck in PROCESSING longer than this (crashed worker) are picked up again
+  processingTimeoutMs: parseInt(process.env.TRADE_INGESTION_PROCESSING_TIMEOUT_MS || '60000'),
+};
+
+// Postgres advisory lock keys of jobs that must run on one instance at a time
+export const advisoryLockKeys = {
+  ledgerBackfill: 20001,
+  feeTierEvaluation: 20002,
+  ambassadorTierEvaluation: 20003,
+};
+
+// Commission rate per referral level, e.g. "0.30,0.03,0.02"
+// Falls back to the legacy per-level variables for a 3-level schedule
+const levelRates = process.env.COMMISSION_LEVEL_RATES
+  ? process.env.COMMISSION_LEVEL_RATES.split(',').map((rate) => parseFloat(rate.trim()))
+  : [
+      parseFloat(process.env.DEFAULT_DIRECT_COMMISSION_RATE || '0.30'),
+      parseFloat(process.env.DEFAULT_LEVEL2_COMMISSION_RATE || '0.03'),
+      parseFloat(process.env.DEFAULT_LEVEL3_COMMISSION_RATE || '0.02'),
+    ];
+
 // Referral System Configuration
 export const referralConfig: CommissionConfig = {
-  maxDepth: parseInt(process.env.MAX_REFERRAL_DEPTH || '3'),
-  rates: {
-    level1: parseFloat(process.env.DEFAULT_DIRECT_COMMISSION_RATE || '0.30'),
-    level2: parseFloat(process.env.DEFAULT_LEVEL2_COMMISSION_RATE || '0.03'),
-    level3: parseFloat(process.env.DEFAULT_LEVEL3_COMMISSION_RATE || '0.02'),
-  },
+  // Defaults to the length of the schedule; levels beyond the schedule earn nothing
+  maxDepth: parseInt(process.env.MAX_REFERRAL_DEPTH || String(levelRates.length)),
+  levelRates,
+  // Referrers earn on a referee's trades, and the referee keeps the signup discount,
+  // for this many days after signup (0 = forever)
+  earningWindowDays: parseInt(process.env.REFERRAL_EARNING_WINDOW_DAYS || '365'),
   defaultFeeDiscount: parseFloat(process.env.DEFAULT_FEE_DISCOUNT_RATE || '0.10'),
   baseFeeRate: parseFloat(process.env.BASE_FEE_TIER_RATE || '0.01'),
 };
 
+// Commission Caps (USD; unset = uncapped). Commission plans can override these.
+export const commissionCapConfig: CommissionCaps = {
+  perRefereeMonthly: process.env.COMMISSION_CAP_PER_REFEREE_MONTHLY
+    ? parseFloat(process.env.COMMISSION_CAP_PER_REFEREE_MONTHLY)
+    : null,
+  perEarnerDaily: process.env.COMMISSION_CAP_PER_EARNER_DAILY
+    ? parseFloat(process.env.COMMISSION_CAP_PER_EARNER_DAILY)
+    : null,
+  perEarnerMonthly: process.env.COMMISSION_CAP_PER_EARNER_MONTHLY
+    ? parseFloat(process.env.COMMISSION_CAP_PER_EARNER_MONTHLY)
+    : null,
+};
+
+// Product Fee Schedules (base rates per trade type; tiers are keyed by trade type too)
+// baseFeeRate is the taker rate; a negative makerFeeRate is a rebate paid to the maker
+export const productFeeSchedules: Record<string, ProductFeeSchedule> = {
+  SPOT: {
+    baseFeeRate: referralConfig.baseFeeRate,
+    makerFeeRate: parseFloat(
+      process.env.BASE_MAKER_FEE_RATE || referralConfig.baseFeeRate.toString()
+    ),
+  },
+  FUTURES: {
+    baseFeeRate: parseFloat(process.env.FUTURES_BASE_FEE_RATE || '0.0005'),
+    makerFeeRate: parseFloat(process.env.FUTURES_MAKER_FEE_RATE || '0.0002'),
+  },
+  OPTIONS: {
+    baseFeeRate: parseFloat(process.env.OPTIONS_BASE_FEE_RATE || '0.003'),
+    makerFeeRate: parseFloat(process.env.OPTIONS_MAKER_FEE_RATE || '0.003'),
+  },
+};
+
+// Fee Tier Qualification
+export const feeTierConfig = {
+  // Tiers are qualified on the trader's volume over this many UTC days, today included
+  volumeWindowDays: parseInt(process.env.FEE_TIER_VOLUME_WINDOW_DAYS || '30'),
+  // A trader whose volume falls below their tier keeps it this many days before the downgrade
+  downgradeGraceDays: parseInt(process.env.FEE_TIER_DOWNGRADE_GRACE_DAYS || '7'),
+  evaluationIntervalMs: parseInt(process.env.FEE_TIER_EVALUATION_INTERVAL_MS || '3600000'),
+  // Running instances reload the tiers this often, picking up admin changes without a restart
+  cacheTtlMs: parseInt(process.env.FEE_TIER_CACHE_TTL_MS || '60000'),
+  // User.feeTier is assigned from this schedule's tiers; other schedules qualify at trade time
+  assignedTradeType: 'SPOT',
+};
+
 // Fee Tier Definitions
 export const feeTierDefinitions = [
   {
     name: 'BASE',
+    tradeType: 'SPOT',
     minimumVolume: new Decimal(0),
     feeRate: new Decimal(0.01), // 1%
     priority: 0,
@@ -44,6 +149,7 @@ export const feeTierDefinitions = [
   },
   {
     name: 'TIER1',
+    tradeType: 'SPOT',
     minimumVolume: new Decimal(10000), // $10k volume
     feeRate: new Decimal(0.008), // 0.8%
     priority: 1,
@@ -51,6 +157,7 @@ export const feeTierDefinitions = [
   },
   {
     name: 'TIER2',
+    tradeType: 'SPOT',
     minimumVolume: new Decimal(50000), // $50k volume
     feeRate: new Decimal(0.006), // 0.6%
     priority: 2,
@@ -58,6 +165,7 @@ export const feeTierDefinitions = [
   },
   {
     name: 'TIER3',
+    tradeType: 'SPOT',
     minimumVolume: new Decimal(200000), // $200k volume
     feeRate: new Decimal(0.005), // 0.5%
     priority: 3,
@@ -65,40 +173,93 @@ export const feeTierDefinitions = [
   },
   {
     name: 'VIP',
+    tradeType: 'SPOT',
     minimumVolume: new Decimal(1000000), // $1M volume
     feeRate: new Decimal(0.003), // 0.3%
     priority: 4,
     description: 'VIP tier for institutional traders',
   },
+  {
+    name: 'BASE',
+    tradeType: 'FUTURES',
+    minimumVolume: new Decimal(0),
+    feeRate: new Decimal(0.0005), // 0.05% of notional
+    priority: 0,
+    description: 'Base perps tier',
+  },
+  {
+    name: 'TIER1',
+    tradeType: 'FUTURES',
+    minimumVolume: new Decimal(1000000), // $1M notional
+    feeRate: new Decimal(0.0004), // 0.04% of notional
+    makerFeeRate: new Decimal(0.0001), // 0.01% of notional
+    priority: 1,
+    description: 'Active perps traders',
+  },
+  {
+    name: 'VIP',
+    tradeType: 'FUTURES',
+    minimumVolume: new Decimal(50000000), // $50M notional
+    feeRate: new Decimal(0.0002), // 0.02% of notional
+    makerFeeRate: new Decimal(-0.00005), // 0.005% maker rebate
+    priority: 4,
+    description: 'Institutional perps traders',
+  },
+  {
+    name: 'BASE',
+    tradeType: 'OPTIONS',
+    minimumVolume: new Decimal(0),
+    feeRate: new Decimal(0.003), // 0.3% of premium
+    priority: 0,
+    description: 'Base options tier',
+  },
 ];
 
 // Custom Commission Structures
 export const customCommissionStructures: Record<string, CustomCommissionStructure> = {
   KOL_50: {
-    level1Rate: 0.5, // 50% commission for KOLs
-    level2Rate: 0.03, // Standard level 2
-    level3Rate: 0.02, // Standard level 3
+    levelRates: [0.5, 0.03, 0.02], // 50% direct, standard levels 2 and 3
     type: 'KOL_50',
     description: 'Key Opinion Leader with 50% direct commission',
   },
 
   KOL_CUSTOM_HIGH: {
-    level1Rate: 0.4, // 40% commission
-    level2Rate: 0.05, // 5% level 2
-    level3Rate: 0.03, // 3% level 3
+    levelRates: [0.4, 0.05, 0.03], // 40% direct, 5% level 2, 3% level 3
     type: 'KOL_CUSTOM',
     description: 'High-tier KOL with enhanced multi-level commissions',
   },
 
   KOL_CUSTOM_BALANCED: {
-    level1Rate: 0.35, // 35% commission
-    level2Rate: 0.04, // 4% level 2
-    level3Rate: 0.025, // 2.5% level 3
+    levelRates: [0.35, 0.04, 0.025], // 35% direct, 4% level 2, 2.5% level 3
     type: 'KOL_CUSTOM',
     description: 'Balanced KOL structure with good multi-level incentives',
   },
 };
 
+// Ambassador Tiers (lowest first): referrers qualify on network volume or active
+// referees over the evaluation window; a tier only ever raises the standard rates
+export const ambassadorConfig = {
+  windowDays: parseInt(process.env.AMBASSADOR_WINDOW_DAYS || '30'),
+  evaluationIntervalMs: parseInt(process.env.AMBASSADOR_EVALUATION_INTERVAL_MS || '3600000'),
+};
+
+export const ambassadorTierDefinitions: AmbassadorTier[] = [
+  {
+    name: 'SILVER',
+    minNetworkVolume: 1000000,
+    minActiveReferees: 25,
+    levelRates: [0.35, 0.04, 0.025],
+    description: 'Ambassador with an active, growing network',
+  },
+  {
+    name: 'GOLD',
+    minNetworkVolume: 5000000,
+    minActiveReferees: 100,
+    levelRates: [0.4, 0.05, 0.03],
+    description: 'Top ambassador',
+  },
+];
+
 // Supported Tokens and Chains
 export const supportedTokens = ['USDC', 'USDT', 'SOL', 'ETH'] as const;
 export const supportedChains = ['EVM', 'SVM'] as const;
@@ -107,10 +268,45 @@ export const supportedNetworks = {
   SVM: ['Solana'],
 } as const;
 
+// Commission Settlement Token Policy
+export const settlementConfig: SettlementConfig = {
+  policy: (process.env.COMMISSION_SETTLEMENT_POLICY ||
+    'SETTLEMENT_STABLECOIN') as SettlementConfig['policy'],
+  settlementToken: process.env.COMMISSION_SETTLEMENT_TOKEN || 'USDC',
+
+  // Format: "Network:TOKEN,Network:TOKEN" (e.g. "Solana:SOL,Arbitrum:USDC")
+  networkDefaults: {
+    Arbitrum: 'USDC',
+    Ethereum: 'USDC',
+    Polygon: 'USDC',
+    Solana: 'USDC',
+    ...Object.fromEntries(
+      (process.env.COMMISSION_NETWORK_TOKENS || '')
+        .split(',')
+        .filter((entry) => entry.includes(':'))
+        .map((entry) => entry.split(':').map((part) => part.trim()))
+    ),
+  },
+};
+
+// USD Price Source
+export const priceConfig = {
+  // 'static' uses staticUsdRates, 'file' reads PRICE_FILE_PATH (see services/priceSource.ts)
+  source: process.env.PRICE_SOURCE || 'static',
+  filePath: process.env.PRICE_FILE_PATH || './prices.json',
+
+  staticUsdRates: {
+    USDC: 1,
+    USDT: 1,
+    SOL: 150,
+    ETH: 3000,
+  } as Record<string, number>,
+};
+
 // Business Rules
 export const businessRules = {
   // Maximum referral depth - prevents infinite chains
-  maxReferralDepth: 3,
+  maxReferralDepth: referralConfig.maxDepth,
 
   // Minimum amounts for various operations (in USDC)
   minimumTradeVolume: new Decimal(10), // $10 minimum trade
@@ -132,7 +328,6 @@ export const businessRules = {
 
   // Time-based rules
   commissionClaimCooldown: 24 * 60 * 60 * 1000, // 24 hours in milliseconds
-  referralLinkExpiry: 30 * 24 * 60 * 60 * 1000, // 30 days in milliseconds
 
   // Performance optimization
   networkCacheTimeout: 5 * 60 * 1000, // 5 minutes for network stats cache
@@ -192,7 +387,7 @@ export const validationRules = {
 
   referralCode: {
     pattern: /^[A-Z0-9]+$/,
-    exactLength: referralConfig.maxDepth,
+    exactLength: businessRules.referralCodeLength,
   },
 
   tradeVolume: {
@@ -213,6 +408,10 @@ export const errorMessages = {
   TOKEN_EXPIRED: 'Authentication token has expired',
   TOKEN_INVALID: 'Invalid authentication token',
   UNAUTHORIZED: 'Authentication required',
+  MISSING_WEBHOOK_SIGNATURE: 'Missing webhook signature headers',
+  INVALID_WEBHOOK_SIGNATURE: 'Invalid webhook signature',
+  WEBHOOK_TIMESTAMP_OUT_OF_RANGE: 'Webhook timestamp is outside the allowed window',
+  WEBHOOK_REPLAY_DETECTED: 'Webhook nonce has already been used',
 
   // Referral System
   REFERRAL_CODE_NOT_FOUND: 'Referral code not found',
@@ -227,12 +426,29 @@ export const errorMessages = {
   COMMISSION_ALREADY_CLAIMED: 'Commission has already been claimed',
   COMMISSION_NOT_FOUND: 'Commission not found',
   INVALID_COMMISSION_LEVEL: 'Invalid commission level',
+  COMMISSION_PLAN_CONFLICT: 'Commission plans must take effect after the latest plan version',
+  COMMISSION_PLAN_UNAVAILABLE: 'No commission plan is in effect for this trade',
+
+  // Fee Tiers
+  FEE_TIER_NOT_FOUND: 'Fee tier not found',
+  FEE_TIER_EXISTS: 'A fee tier with this name already exists for the trade type',
+  INVALID_FEE_TIER_SCHEDULE:
+    'Fee tier rates must decrease as minimum volume and priority increase, with unique priorities',
+  FEE_CAMPAIGN_NOT_FOUND: 'Fee campaign not found',
+  INVALID_FEE_CAMPAIGN:
+    'Fee campaigns must end after they start and set either a discount or an override rate',
 
   // Trade System
   TRADE_NOT_FOUND: 'Trade not found',
   INVALID_TRADE_DATA: 'Invalid trade data provided',
   TRADE_ALREADY_PROCESSED: 'Trade has already been processed',
+  TRADE_ALREADY_REVERSED: 'Trade has already been reversed',
+  INVALID_TRADE_STATUS: 'Trade status does not allow this operation',
+  INGESTION_NOT_FOUND: 'Trade ingestion entry not found',
+  INGESTION_NOT_REPLAYABLE: 'Only dead-lettered ingestion entries can be replayed',
   MINIMUM_TRADE_VOLUME_NOT_MET: 'Trade volume below minimum threshold',
+  PRICE_UNAVAILABLE: 'No USD price available for asset',
+  UNSUPPORTED_ASSET: 'Asset is not covered by the price source',
 
   // User Management
   USER_NOT_FOUND: 'User not found',
@@ -249,18 +465,29 @@ export const errorMessages = {
   // System
   INTERNAL_SERVER_ERROR: 'Internal server error',
   DATABASE_ERROR: 'Database operation failed',
+  LEDGER_UNBALANCED: 'Journal entry does not balance',
   EXTERNAL_SERVICE_ERROR: 'External service unavailable',
   RATE_LIMIT_EXCEEDED: 'Rate limit exceeded',
 };
 
 export default {
   config,
+  webhookConfig,
+  ingestionConfig,
+  advisoryLockKeys,
   referralConfig,
+  commissionCapConfig,
+  productFeeSchedules,
+  feeTierConfig,
   feeTierDefinitions,
   customCommissionStructures,
+  ambassadorConfig,
+  ambassadorTierDefinitions,
   supportedTokens,
   supportedChains,
   supportedNetworks,
+  settlementConfig,
+  priceConfig,
   businessRules,
   apiConfig,
   validationRules,
@@ -1,7 +1,17 @@
 import { Request, Response, NextFunction } from 'express';
 import { ReferralService } from '../services/referralService';
 import { ErrorUtils, ValidationUtils, PaginationUtils } from '../utils/helpers';
-import { apiConfig, errorMessages } from '../config';
+import { commonSchemas } from '../middleware/validation';
+import {
+  apiConfig,
+  webhookConfig,
+  supportedChains,
+  supportedNetworks,
+  errorMessages,
+  businessRules,
+  ambassadorTierDefinitions,
+} from '../config';
+import { TradeBatchItemResult, TradeInboxStatus, TradeWebhookRequest } from '../types';
 import Joi from 'joi';
 
 /**
@@ -17,8 +27,8 @@ import Joi from 'joi';
 export class ReferralController {
   private referralService: ReferralService;
 
-  constructor() {
-    this.referralService = new ReferralService();
+  constructor(referralService?: ReferralService) {
+    this.referralService = referralService || new ReferralService();
   }
 
   /**
@@ -59,20 +69,674 @@ export class ReferralController {
     }
   };
 
+  /**
+   * PUT /api/referral/kickback/:userId
+   * Set the share of the level-1 commission given back to referees
+   */
+  updateKickbackRate = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const schema = Joi.object({
+        userId: Joi.string().uuid().required(),
+        kickbackRate: Joi.number().min(0).max(1).required(),
+      });
+
+      const { error, value } = schema.validate({
+        userId: req.params.userId,
+        kickbackRate: req.body.kickbackRate,
+      });
+      if (error) {
+        res.status(400).json({
+          success: false,
+          error: 'VALIDATION_ERROR',
+          message: error.details[0].message,
+        });
+        return;
+      }
+
+      const result = await this.referralService.updateKickbackRate(value);
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (err) {
+      next(err);
+    }
+  };
+
   /**
    * POST /api/referral/register
    * Register a new user with a referral code
    */
-  registerWithReferral = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  registerWithReferral = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const schema = Joi.object({
+        email: Joi.string().email().max(254).required(),
+        username: Joi.string().alphanum().min(3).max(30).optional(),
+        password: Joi.string().min(8).max(128).required(),
+        referralCode: Joi.string()
+          .length(8)
+          .pattern(/^NIKA[A-Z0-9]{4}$/)
+          .optional(),
+      });
+
+      const { error, value } = schema.validate(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          error: 'VALIDATION_ERROR',
+          message: error.details[0].message,
+        });
+        return;
+      }
+
+      const result = await this.referralService.registerWithReferral(value);
+
+      res.status(201).json({
+        success: true,
+        data: result,
+      });
+    } catch (err) {
+      next(err);
+    }
+  };
+
+  /**
+   * GET /api/referral/network
+   * Return user's referral network (3 levels deep)
+   */
+  getReferralNetwork = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const schema = Joi.object({
+        userId: Joi.string().uuid().required(),
+        page: Joi.number().integer().min(1).default(1),
+        limit: Joi.number().integer().min(1).max(apiConfig.defaultPagination.maxLimit).default(20),
+      });
+
+      const queryData = {
+        userId: req.params.userId || req.query.userId,
+        page: parseInt(req.query.page as string) || 1,
+        limit: parseInt(req.query.limit as string) || 20,
+      };
+
+      const { error, value } = schema.validate(queryData);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          error: 'VALIDATION_ERROR',
+          message: error.details[0].message,
+        });
+        return;
+      }
+
+      const result = await this.referralService.getReferralNetwork(
+        value.userId,
+        value.page,
+        value.limit
+      );
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (err) {
+      next(err);
+    }
+  };
+
+  /**
+   * GET /api/referral/earnings
+   * Show breakdown of earnings per referred user
+   */
+  getEarningsBreakdown = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const schema = Joi.object({
+        userId: Joi.string().uuid().required(),
+        startDate: Joi.date().optional(),
+        endDate: Joi.date().optional(),
+        page: Joi.number().integer().min(1).default(1),
+        limit: Joi.number().integer().min(1).max(apiConfig.defaultPagination.maxLimit).default(20),
+      });
+
+      const queryData = {
+        userId: req.params.userId || req.query.userId,
+        startDate: req.query.startDate ? new Date(req.query.startDate as string) : undefined,
+        endDate: req.query.endDate ? new Date(req.query.endDate as string) : undefined,
+        page: parseInt(req.query.page as string) || 1,
+        limit: parseInt(req.query.limit as string) || 20,
+      };
+
+      const { error, value } = schema.validate(queryData);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          error: 'VALIDATION_ERROR',
+          message: error.details[0].message,
+        });
+        return;
+      }
+
+      // Validate date range
+      if (value.startDate && value.endDate && value.startDate > value.endDate) {
+        res.status(400).json({
+          success: false,
+          error: 'INVALID_DATE_RANGE',
+          message: errorMessages.INVALID_DATE_RANGE,
+        });
+        return;
+      }
+
+      const result = await this.referralService.getEarningsBreakdown(value);
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (err) {
+      next(err);
+    }
+  };
+
+  /**
+   * POST /api/referral/claim
+   * Validate claimable amount (UI only - no implementation needed)
+   */
+  validateClaimRequest = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const schema = Joi.object({
+        userId: Joi.string().uuid().required(),
+        tokenType: Joi.string().valid('USDC', 'USDT', 'SOL', 'ETH').default('USDC'),
+        walletAddress: Joi.string().required(),
+      });
+
+      const { error, value } = schema.validate(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          error: 'VALIDATION_ERROR',
+          message: error.details[0].message,
+        });
+        return;
+      }
+
+      const result = await this.referralService.validateClaimRequest(value.userId, value.tokenType);
+
+      if (!result.isValid) {
+        res.status(400).json({
+          success: false,
+          error: 'INVALID_CLAIM_REQUEST',
+          message: result.errors.join(', '),
+          data: {
+            claimableAmount: result.claimableAmount.toString(),
+            errors: result.errors,
+          },
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Claim request is valid',
+        data: {
+          claimableAmount: result.claimableAmount.toString(),
+          tokenType: value.tokenType,
+          walletAddress: value.walletAddress,
+          estimatedGasFee: '0.001', // Mock value
+          estimatedProcessingTime: '2-5 minutes', // Mock value
+        },
+      });
+    } catch (err) {
+      next(err);
+    }
+  };
+
+  /**
+   * POST /api/webhook/trade
+   * Accept trade data into the inbox; commissions are calculated asynchronously.
+   * Replays of an already processed trade return its original result.
+   */
+  processTradeWebhook = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const schema = Joi.object({
+        userId: Joi.string().uuid().required(),
+        tradeType: Joi.string().valid('SPOT', 'FUTURES', 'OPTIONS').default('SPOT'),
+        baseAsset: Joi.string().required(),
+        quoteAsset: Joi.string().required(),
+        side: Joi.string().valid('BUY', 'SELL').required(),
+        volume: Joi.string()
+          .pattern(/^\d+(\.\d+)?$/)
+          .required(), // String to handle large numbers
+        price: Joi.string()
+          .pattern(/^\d+(\.\d+)?$/)
+          .required(),
+        chain: Joi.string().valid('EVM', 'SVM').required(),
+        network: Joi.string().valid('Arbitrum', 'Ethereum', 'Polygon', 'Solana').required(),
+        transactionHash: Joi.string().optional(),
+        externalTradeId: Joi.string().max(128).optional(),
+        status: Joi.string().valid('PENDING', 'COMPLETED').default('COMPLETED'),
+        liquidityRole: Joi.string().valid('MAKER', 'TAKER').default('TAKER'),
+      });
+
+      const { error, value } = schema.validate(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          error: 'VALIDATION_ERROR',
+          message: error.details[0].message,
+        });
+        return;
+      }
+
+      // Validate network matches chain
+      if (!isValidNetworkForChain(value.chain, value.network)) {
+        res.status(400).json({
+          success: false,
+          error: 'INVALID_NETWORK_CHAIN_COMBINATION',
+          message: `Network ${value.network} is not valid for chain ${value.chain}`,
+        });
+        return;
+      }
+
+      const { queued, response } = await this.referralService.enqueueTradeWebhook(value);
+
+      res.status(queued ? 202 : 200).json({
+        success: true,
+        data: response,
+      });
+    } catch (err) {
+      next(err);
+    }
+  };
+
+  /**
+   * POST /api/webhook/trades/batch
+   * Accept a block of trades; each item is validated and processed independently
+   */
+  processTradeBatch = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const schema = Joi.object({
+        trades: Joi.array()
+          .items(Joi.object().unknown(true))
+          .min(1)
+          .max(webhookConfig.maxBatchSize)
+          .required(),
+      });
+
+      const { error, value } = schema.validate(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          error: 'VALIDATION_ERROR',
+          message: error.details[0].message,
+        });
+        return;
+      }
+
+      const results: TradeBatchItemResult[] = [];
+      const validItems: { index: number; trade: TradeWebhookRequest }[] = [];
+
+      value.trades.forEach((item: unknown, index: number) => {
+        const { error: itemError, value: trade } = commonSchemas.tradeWebhook.validate(item, {
+          abortEarly: false,
+          stripUnknown: true,
+          convert: true,
+        });
+
+        if (itemError) {
+          results[index] = {
+            index,
+            success: false,
+            error: {
+              code: 'VALIDATION_ERROR',
+              message: itemError.details.map((detail) => detail.message).join(', '),
+            },
+          };
+          return;
+        }
+
+        if (!isValidNetworkForChain(trade.chain, trade.network)) {
+          results[index] = {
+            index,
+            success: false,
+            error: {
+              code: 'INVALID_NETWORK_CHAIN_COMBINATION',
+              message: `Network ${trade.network} is not valid for chain ${trade.chain}`,
+            },
+          };
+          return;
+        }
+
+        validItems.push({ index, trade });
+      });
+
+      const processed = await this.referralService.processTradeBatch(
+        validItems.map((item) => item.trade)
+      );
+
+      // Map service results back to their position in the submitted batch
+      processed.forEach((result, position) => {
+        const index = validItems[position].index;
+        results[index] = { ...result, index };
+      });
+
+      const succeeded = results.filter((result) => result.success).length;
+
+      res.status(200).json({
+        success: true,
+        data: {
+          results,
+          summary: {
+            total: results.length,
+            succeeded,
+            failed: results.length - succeeded,
+          },
+        },
+      });
+    } catch (err) {
+      next(err);
+    }
+  };
+
+  /**
+   * POST /api/webhook/trade/:tradeId/settle
+   * Confirm a pending trade with its final transaction hash
+   */
+  settleTrade = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const schema = Joi.object({
+        tradeId: Joi.string().max(128).required(),
+        transactionHash: Joi.string().max(128).required(),
+      });
+
+      const { error, value } = schema.validate({ ...req.body, tradeId: req.params.tradeId });
+      if (error) {
+        res.status(400).json({
+          success: false,
+          error: 'VALIDATION_ERROR',
+          message: error.details[0].message,
+        });
+        return;
+      }
+
+      const result = await this.referralService.settleTrade(value.tradeId, value.transactionHash);
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (err) {
+      next(err);
+    }
+  };
+
+  /**
+   * POST /api/webhook/trade/:tradeId/fail
+   * Mark a pending trade as failed and void its commissions
+   */
+  failTrade = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const schema = Joi.object({
+        tradeId: Joi.string().max(128).required(),
+        reason: Joi.string().trim().min(1).max(500).required(),
+      });
+
+      const { error, value } = schema.validate({ ...req.body, tradeId: req.params.tradeId });
+      if (error) {
+        res.status(400).json({
+          success: false,
+          error: 'VALIDATION_ERROR',
+          message: error.details[0].message,
+        });
+        return;
+      }
+
+      const result = await this.referralService.failTrade(value.tradeId, value.reason);
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (err) {
+      next(err);
+    }
+  };
+
+  /**
+   * POST /api/webhook/trade/:tradeId/reverse
+   * Reverse a busted or rolled-back trade and claw back its commissions
+   */
+  reverseTrade = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const schema = Joi.object({
+        tradeId: Joi.string().max(128).required(),
+        reason: Joi.string().trim().min(1).max(500).required(),
+      });
+
+      const { error, value } = schema.validate({ ...req.body, tradeId: req.params.tradeId });
+      if (error) {
+        res.status(400).json({
+          success: false,
+          error: 'VALIDATION_ERROR',
+          message: error.details[0].message,
+        });
+        return;
+      }
+
+      const result = await this.referralService.reverseTrade(value.tradeId, value.reason);
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (err) {
+      next(err);
+    }
+  };
+
+  /**
+   * POST /api/referral/simulate
+   * Dry-run the fees and commissions of a trade without persisting anything (admin)
+   */
+  simulateTrade = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const userOverrides = Joi.object({
+        customCommissionStructure: Joi.object({
+          levelRates: Joi.array()
+            .items(Joi.number().min(0).max(1))
+            .min(1)
+            .max(businessRules.maxReferralDepth)
+            .required(),
+          earningWindowDays: Joi.number().integer().min(0).optional(),
+          type: Joi.string().valid('KOL_50', 'KOL_CUSTOM', 'STANDARD').default('KOL_CUSTOM'),
+          description: Joi.string().max(500).optional(),
+        }),
+        ambassadorTier: Joi.string()
+          .valid(...ambassadorTierDefinitions.map((tier) => tier.name))
+          .allow(null),
+        kickbackRate: Joi.number().min(0).max(1),
+        totalTradeVolume: Joi.number().min(0),
+        customFeeRate: Joi.number().min(0).max(1),
+        feeDiscountRate: Joi.number().min(0).max(1),
+      });
+
+      const schema = commonSchemas.tradeWebhook.keys({
+        overrides: Joi.object({
+          trader: userOverrides,
+          referrers: Joi.object().pattern(Joi.string().uuid(), userOverrides),
+        }).optional(),
+      });
+
+      const { error, value } = schema.validate(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          error: 'VALIDATION_ERROR',
+          message: error.details[0].message,
+        });
+        return;
+      }
+
+      if (!isValidNetworkForChain(value.chain, value.network)) {
+        res.status(400).json({
+          success: false,
+          error: 'INVALID_NETWORK_CHAIN_COMBINATION',
+          message: `Network ${value.network} is not valid for chain ${value.chain}`,
+        });
+        return;
+      }
+
+      const result = await this.referralService.simulateTrade(value);
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (err) {
+      next(err);
+    }
+  };
+
+  /**
+   * GET /api/referral/statistics
+   * Get platform-wide referral statistics (admin endpoint)
+   */
+  getPlatformStatistics = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      // This would typically require admin authentication
+      // For now, we'll assume the user is authenticated and authorized
+
+      const result = await this.referralService.getPlatformStatistics();
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (err) {
+      next(err);
+    }
+  };
+
+  /**
+   * GET /api/referral/admin/trade-inbox
+   * List trade ingestion entries, e.g. dead letters (admin endpoint)
+   */
+  getTradeInboxEntries = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const schema = Joi.object({
+        status: Joi.string()
+          .valid(...Object.values(TradeInboxStatus))
+          .optional(),
+        page: Joi.number().integer().min(1).default(1),
+        limit: Joi.number().integer().min(1).max(apiConfig.defaultPagination.maxLimit).default(20),
+      });
+
+      const { error, value } = schema.validate({
+        status: req.query.status,
+        page: parseInt(req.query.page as string) || 1,
+        limit: parseInt(req.query.limit as string) || 20,
+      });
+      if (error) {
+        res.status(400).json({
+          success: false,
+          error: 'VALIDATION_ERROR',
+          message: error.details[0].message,
+        });
+        return;
+      }
+
+      const result = await this.referralService.getTradeInboxEntries(
+        value.status,
+        value.page,
+        value.limit
+      );
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (err) {
+      next(err);
+    }
+  };
+
+  /**
+   * GET /api/referral/admin/trade-inbox/:ingestionId
+   * Inspect a single trade ingestion entry (admin endpoint)
+   */
+  getTradeInboxEntry = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const result = await this.referralService.getTradeInboxEntry(req.params.ingestionId);
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (err) {
+      next(err);
+    }
+  };
+
+  /**
+   * POST /api/referral/admin/trade-inbox/:ingestionId/replay
+   * Requeue a dead-lettered trade ingestion entry (admin endpoint)
+   */
+  replayTradeInboxEntry = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const result = await this.referralService.replayTradeInboxEntry(req.params.ingestionId);
+
+      res.status(202).json({
+        success: true,
+        data: result,
+      });
+    } catch (err) {
+      next(err);
+    }
+  };
+
+  /**
+   * GET /api/referral/admin/commission-plans
+   * List commission plan versions (admin endpoint)
+   */
+  getCommissionPlans = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const result = await this.referralService.getCommissionPlans();
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (err) {
+      next(err);
+    }
+  };
+
+  /**
+   * POST /api/referral/admin/commission-plans
+   * Publish a new commission plan version (admin endpoint)
+   */
+  createCommissionPlan = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
       const schema = Joi.object({
-        email: Joi.string().email().max(254).required(),
-        username: Joi.string().alphanum().min(3).max(30).optional(),
-        password: Joi.string().min(8).max(128).required(),
-        referralCode: Joi.string()
-          .length(8)
-          .pattern(/^NIKA[A-Z0-9]{4}$/)
-          .optional(),
+        levelRates: Joi.array()
+          .items(Joi.number().min(0).max(1))
+          .min(1)
+          .max(businessRules.maxReferralDepth)
+          .required(),
+        caps: Joi.object({
+          perRefereeMonthly: Joi.number().min(0).allow(null),
+          perEarnerDaily: Joi.number().min(0).allow(null),
+          perEarnerMonthly: Joi.number().min(0).allow(null),
+        }).optional(),
+        effectiveFrom: Joi.date().iso().min('now').optional(),
+        description: Joi.string().max(255).optional(),
       });
 
       const { error, value } = schema.validate(req.body);
@@ -85,11 +749,12 @@ export class ReferralController {
         return;
       }
 
-      const result = await this.referralService.registerWithReferral(value);
+      const result = await this.referralService.createCommissionPlan(value);
 
       res.status(201).json({
         success: true,
         data: result,
+        message: `Commission plan v${result.version} created`,
       });
     } catch (err) {
       next(err);
@@ -97,24 +762,16 @@ export class ReferralController {
   };
 
   /**
-   * GET /api/referral/network
-   * Return user's referral network (3 levels deep)
+   * GET /api/referral/admin/fee-tiers
+   * List fee tiers, inactive ones included (admin endpoint)
    */
-  getReferralNetwork = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  getFeeTiers = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
       const schema = Joi.object({
-        userId: Joi.string().uuid().required(),
-        page: Joi.number().integer().min(1).default(1),
-        limit: Joi.number().integer().min(1).max(apiConfig.defaultPagination.maxLimit).default(20),
+        tradeType: Joi.string().valid('SPOT', 'FUTURES', 'OPTIONS').optional(),
       });
 
-      const queryData = {
-        userId: req.params.userId || req.query.userId,
-        page: parseInt(req.query.page as string) || 1,
-        limit: parseInt(req.query.limit as string) || 20,
-      };
-
-      const { error, value } = schema.validate(queryData);
+      const { error, value } = schema.validate(req.query);
       if (error) {
         res.status(400).json({
           success: false,
@@ -124,11 +781,7 @@ export class ReferralController {
         return;
       }
 
-      const result = await this.referralService.getReferralNetwork(
-        value.userId,
-        value.page,
-        value.limit
-      );
+      const result = await this.referralService.listFeeTiers(value.tradeType);
 
       res.status(200).json({
         success: true,
@@ -140,28 +793,25 @@ export class ReferralController {
   };
 
   /**
-   * GET /api/referral/earnings
-   * Show breakdown of earnings per referred user
+   * POST /api/referral/admin/fee-tiers
+   * Create a fee tier (admin endpoint)
    */
-  getEarningsBreakdown = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  createFeeTier = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
       const schema = Joi.object({
-        userId: Joi.string().uuid().required(),
-        startDate: Joi.date().optional(),
-        endDate: Joi.date().optional(),
-        page: Joi.number().integer().min(1).default(1),
-        limit: Joi.number().integer().min(1).max(apiConfig.defaultPagination.maxLimit).default(20),
+        name: Joi.string()
+          .pattern(/^[A-Z0-9_]+$/)
+          .max(32)
+          .required(),
+        tradeType: Joi.string().valid('SPOT', 'FUTURES', 'OPTIONS').default('SPOT'),
+        minimumVolume: Joi.number().min(0).required(),
+        feeRate: Joi.number().min(0).max(1).required(),
+        makerFeeRate: Joi.number().min(-1).max(1).allow(null).optional(),
+        priority: Joi.number().integer().min(0).required(),
+        description: Joi.string().max(255).optional(),
       });
 
-      const queryData = {
-        userId: req.params.userId || req.query.userId,
-        startDate: req.query.startDate ? new Date(req.query.startDate as string) : undefined,
-        endDate: req.query.endDate ? new Date(req.query.endDate as string) : undefined,
-        page: parseInt(req.query.page as string) || 1,
-        limit: parseInt(req.query.limit as string) || 20,
-      };
-
-      const { error, value } = schema.validate(queryData);
+      const { error, value } = schema.validate(req.body);
       if (error) {
         res.status(400).json({
           success: false,
@@ -171,21 +821,51 @@ export class ReferralController {
         return;
       }
 
-      // Validate date range
-      if (value.startDate && value.endDate && value.startDate > value.endDate) {
+      const result = await this.referralService.createFeeTier(value);
+
+      res.status(201).json({
+        success: true,
+        data: result,
+        message: `Fee tier ${result.name} created`,
+      });
+    } catch (err) {
+      next(err);
+    }
+  };
+
+  /**
+   * PATCH /api/referral/admin/fee-tiers/:tierId
+   * Update, deactivate or reactivate a fee tier (admin endpoint)
+   */
+  updateFeeTier = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const schema = Joi.object({
+        tierId: Joi.string().uuid().required(),
+        minimumVolume: Joi.number().min(0).optional(),
+        feeRate: Joi.number().min(0).max(1).optional(),
+        makerFeeRate: Joi.number().min(-1).max(1).allow(null).optional(),
+        priority: Joi.number().integer().min(0).optional(),
+        description: Joi.string().max(255).optional(),
+        isActive: Joi.boolean().optional(),
+      }).min(2);
+
+      const { error, value } = schema.validate({ ...req.body, tierId: req.params.tierId });
+      if (error) {
         res.status(400).json({
           success: false,
-          error: 'INVALID_DATE_RANGE',
-          message: errorMessages.INVALID_DATE_RANGE,
+          error: 'VALIDATION_ERROR',
+          message: error.details[0].message,
         });
         return;
       }
 
-      const result = await this.referralService.getEarningsBreakdown(value);
+      const { tierId, ...changes } = value;
+      const result = await this.referralService.updateFeeTier(tierId, changes);
 
       res.status(200).json({
         success: true,
         data: result,
+        message: `Fee tier ${result.name} updated`,
       });
     } catch (err) {
       next(err);
@@ -193,15 +873,23 @@ export class ReferralController {
   };
 
   /**
-   * POST /api/referral/claim
-   * Validate claimable amount (UI only - no implementation needed)
+   * PUT /api/referral/admin/fee-tiers/priorities
+   * Set the priorities of several tiers of a schedule at once (admin endpoint)
    */
-  validateClaimRequest = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  reorderFeeTiers = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
       const schema = Joi.object({
-        userId: Joi.string().uuid().required(),
-        tokenType: Joi.string().valid('USDC', 'USDT', 'SOL', 'ETH').default('USDC'),
-        walletAddress: Joi.string().required(),
+        tradeType: Joi.string().valid('SPOT', 'FUTURES', 'OPTIONS').default('SPOT'),
+        priorities: Joi.array()
+          .items(
+            Joi.object({
+              tierId: Joi.string().uuid().required(),
+              priority: Joi.number().integer().min(0).required(),
+            })
+          )
+          .min(1)
+          .unique('tierId')
+          .required(),
       });
 
       const { error, value } = schema.validate(req.body);
@@ -214,31 +902,12 @@ export class ReferralController {
         return;
       }
 
-      const result = await this.referralService.validateClaimRequest(value.userId, value.tokenType);
-
-      if (!result.isValid) {
-        res.status(400).json({
-          success: false,
-          error: 'INVALID_CLAIM_REQUEST',
-          message: result.errors.join(', '),
-          data: {
-            claimableAmount: result.claimableAmount.toString(),
-            errors: result.errors,
-          },
-        });
-        return;
-      }
+      const result = await this.referralService.reorderFeeTiers(value);
 
       res.status(200).json({
         success: true,
-        message: 'Claim request is valid',
-        data: {
-          claimableAmount: result.claimableAmount.toString(),
-          tokenType: value.tokenType,
-          walletAddress: value.walletAddress,
-          estimatedGasFee: '0.001', // Mock value
-          estimatedProcessingTime: '2-5 minutes', // Mock value
-        },
+        data: result,
+        message: `${value.tradeType} fee tiers reordered`,
       });
     } catch (err) {
       next(err);
@@ -246,29 +915,32 @@ export class ReferralController {
   };
 
   /**
-   * POST /api/webhook/trade
-   * Accept trade data and calculate/distribute commissions
+   * GET /api/referral/admin/fee-campaigns
+   * List fee campaigns, newest first (admin endpoint)
    */
-  processTradeWebhook = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  getFeeCampaigns = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
-      const schema = Joi.object({
-        userId: Joi.string().uuid().required(),
-        tradeType: Joi.string().valid('SPOT', 'FUTURES', 'OPTIONS').default('SPOT'),
-        baseAsset: Joi.string().required(),
-        quoteAsset: Joi.string().required(),
-        side: Joi.string().valid('BUY', 'SELL').required(),
-        volume: Joi.string()
-          .pattern(/^\d+(\.\d+)?$/)
-          .required(), // String to handle large numbers
-        price: Joi.string()
-          .pattern(/^\d+(\.\d+)?$/)
-          .required(),
-        chain: Joi.string().valid('EVM', 'SVM').required(),
-        network: Joi.string().valid('Arbitrum', 'Ethereum', 'Polygon', 'Solana').required(),
-        transactionHash: Joi.string().optional(),
+      const result = await this.referralService.listFeeCampaigns();
+
+      res.status(200).json({
+        success: true,
+        data: result,
       });
+    } catch (err) {
+      next(err);
+    }
+  };
 
-      const { error, value } = schema.validate(req.body);
+  /**
+   * POST /api/referral/admin/fee-campaigns
+   * Create a time-boxed fee campaign (admin endpoint)
+   */
+  createFeeCampaign = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { error, value } = feeCampaignSchema
+        .fork(['name', 'startsAt', 'endsAt'], (field) => field.required())
+        .xor('discountRate', 'overrideRate')
+        .validate(req.body);
       if (error) {
         res.status(400).json({
           success: false,
@@ -278,26 +950,47 @@ export class ReferralController {
         return;
       }
 
-      // Validate network matches chain
-      const validNetworks = {
-        EVM: ['Arbitrum', 'Ethereum', 'Polygon'],
-        SVM: ['Solana'],
-      };
+      const result = await this.referralService.createFeeCampaign(value);
+
+      res.status(201).json({
+        success: true,
+        data: result,
+        message: `Fee campaign ${result.name} created`,
+      });
+    } catch (err) {
+      next(err);
+    }
+  };
 
-      if (!validNetworks[value.chain as keyof typeof validNetworks].includes(value.network)) {
+  /**
+   * PATCH /api/referral/admin/fee-campaigns/:campaignId
+   * Update a fee campaign, or end it early by deactivating it (admin endpoint)
+   */
+  updateFeeCampaign = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { error, value } = feeCampaignSchema
+        .keys({
+          campaignId: Joi.string().uuid().required(),
+          isActive: Joi.boolean().optional(),
+        })
+        .min(2)
+        .validate({ ...req.body, campaignId: req.params.campaignId });
+      if (error) {
         res.status(400).json({
           success: false,
-          error: 'INVALID_NETWORK_CHAIN_COMBINATION',
-          message: `Network ${value.network} is not valid for chain ${value.chain}`,
+          error: 'VALIDATION_ERROR',
+          message: error.details[0].message,
         });
         return;
       }
 
-      const result = await this.referralService.processTradeWebhook(value);
+      const { campaignId, ...changes } = value;
+      const result = await this.referralService.updateFeeCampaign(campaignId, changes);
 
       res.status(200).json({
         success: true,
         data: result,
+        message: `Fee campaign ${result.name} updated`,
       });
     } catch (err) {
       next(err);
@@ -305,19 +998,93 @@ export class ReferralController {
   };
 
   /**
-   * GET /api/referral/statistics
-   * Get platform-wide referral statistics (admin endpoint)
+   * POST /api/referral/admin/commission-recalculations
+   * Recalculate a user's commissions over a date range, previewing by default (admin endpoint)
    */
-  getPlatformStatistics = async (
+  recalculateCommissions = async (
     req: Request,
     res: Response,
     next: NextFunction
   ): Promise<void> => {
     try {
-      // This would typically require admin authentication
-      // For now, we'll assume the user is authenticated and authorized
+      const schema = Joi.object({
+        userId: Joi.string().uuid().required(),
+        startDate: Joi.date().iso().required(),
+        endDate: Joi.date().iso().required(),
+        preview: Joi.boolean().default(true),
+      });
 
-      const result = await this.referralService.getPlatformStatistics();
+      const { error, value } = schema.validate(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          error: 'VALIDATION_ERROR',
+          message: error.details[0].message,
+        });
+        return;
+      }
+
+      const result = await this.referralService.recalculateCommissions({
+        ...value,
+        requestedById: req.user?.id,
+      });
+
+      res.status(result.preview ? 200 : 201).json({
+        success: true,
+        data: result,
+        message: result.preview
+          ? `${result.adjustments.length} commission adjustments previewed`
+          : `${result.adjustments.length} commission adjustments recorded`,
+      });
+    } catch (err) {
+      next(err);
+    }
+  };
+
+  /**
+   * GET /api/referral/admin/ledger/integrity
+   * Check that every journal entry balances and the ledger matches the records (admin endpoint)
+   */
+  getLedgerIntegrity = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const result = await this.referralService.checkLedgerIntegrity();
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (err) {
+      next(err);
+    }
+  };
+
+  /**
+   * GET /api/referral/fee-tier/:userId
+   * Get user's fee tier, effective rate and progress to the next tier
+   */
+  getFeeTierStatus = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const schema = Joi.object({
+        userId: Joi.string().uuid().required(),
+        tradeType: Joi.string().valid('SPOT', 'FUTURES', 'OPTIONS').default('SPOT'),
+        liquidityRole: Joi.string().valid('MAKER', 'TAKER').default('TAKER'),
+      });
+
+      const { error, value } = schema.validate({ ...req.query, userId: req.params.userId });
+      if (error) {
+        res.status(400).json({
+          success: false,
+          error: 'VALIDATION_ERROR',
+          message: error.details[0].message,
+        });
+        return;
+      }
+
+      const result = await this.referralService.getFeeTierStatus(
+        value.userId,
+        value.tradeType,
+        value.liquidityRole
+      );
 
       res.status(200).json({
         success: true,
@@ -353,7 +1120,11 @@ export class ReferralController {
       res.status(200).json({
         success: true,
         data: result,
-        message: result.updated ? 'Fee tier updated successfully' : 'Fee tier is already optimal',
+        message: result.updated
+          ? 'Fee tier updated successfully'
+          : result.downgradeAt
+            ? 'Fee tier downgrade is pending its grace period'
+            : 'Fee tier is already optimal',
       });
     } catch (err) {
       next(err);
@@ -449,6 +1220,41 @@ export const referralErrorHandler = (
   });
 };
 
+/**
+ * Fee campaign fields; empty filters match any trade
+ */
+const feeCampaignSchema = Joi.object({
+  name: Joi.string().max(100),
+  description: Joi.string().max(255),
+  startsAt: Joi.date().iso(),
+  endsAt: Joi.date().iso(),
+  assets: Joi.array().items(Joi.string().uppercase().max(20)).unique(),
+  networks: Joi.array()
+    .items(Joi.string().valid(...Object.values(supportedNetworks).flat()))
+    .unique(),
+  chains: Joi.array()
+    .items(Joi.string().valid(...supportedChains))
+    .unique(),
+  tradeTypes: Joi.array()
+    .items(Joi.string().valid('SPOT', 'FUTURES', 'OPTIONS'))
+    .unique(),
+  userSegments: Joi.array()
+    .items(Joi.string().valid('REFERRED', 'UNREFERRED', 'AMBASSADOR'))
+    .unique(),
+  signedUpFrom: Joi.date().iso().allow(null),
+  signedUpTo: Joi.date().iso().allow(null),
+  discountRate: Joi.number().greater(0).max(1).allow(null),
+  overrideRate: Joi.number().min(0).max(1).allow(null),
+});
+
+/**
+ * Check that a network belongs to the given chain
+ */
+function isValidNetworkForChain(chain: string, network: string): boolean {
+  const networks: readonly string[] = supportedNetworks[chain as keyof typeof supportedNetworks];
+  return !!networks && networks.includes(network);
+}
+
 /**
  * Map error codes to HTTP status codes
  */
@@ -470,6 +1276,8 @@ function getStatusCodeForError(errorCode: string): number {
     INSUFFICIENT_COMMISSION_BALANCE: 400,
     COMMISSION_ALREADY_CLAIMED: 400,
     INVALID_CLAIM_REQUEST: 400,
+    INVALID_FEE_TIER_SCHEDULE: 400,
+    INVALID_FEE_CAMPAIGN: 400,
 
     // 401 Unauthorized
     INVALID_CREDENTIALS: 401,
@@ -482,6 +1290,9 @@ function getStatusCodeForError(errorCode: string): number {
     REFERRAL_CODE_NOT_FOUND: 404,
     COMMISSION_NOT_FOUND: 404,
     TRADE_NOT_FOUND: 404,
+    INGESTION_NOT_FOUND: 404,
+    FEE_TIER_NOT_FOUND: 404,
+    FEE_CAMPAIGN_NOT_FOUND: 404,
 
     // 409 Conflict
     EMAIL_EXISTS: 409,
@@ -490,6 +1301,15 @@ function getStatusCodeForError(errorCode: string): number {
     USERNAME_ALREADY_EXISTS: 409,
     REFERRAL_CODE_EXISTS: 409,
     TRADE_ALREADY_PROCESSED: 409,
+    TRADE_ALREADY_REVERSED: 409,
+    INVALID_TRADE_STATUS: 409,
+    INGESTION_NOT_REPLAYABLE: 409,
+    COMMISSION_PLAN_CONFLICT: 409,
+    FEE_TIER_EXISTS: 409,
+
+    // 422 Unprocessable Entity
+    PRICE_UNAVAILABLE: 422,
+    UNSUPPORTED_ASSET: 422,
 
     // 429 Too Many Requests
     RATE_LIMIT_EXCEEDED: 429,
@@ -499,6 +1319,8 @@ function getStatusCodeForError(errorCode: string): number {
     DATABASE_ERROR: 500,
     EXTERNAL_SERVICE_ERROR: 500,
     REFERRAL_CODE_GENERATION_FAILED: 500,
+    COMMISSION_PLAN_UNAVAILABLE: 500,
+    LEDGER_UNBALANCED: 500,
   };
 
   return errorStatusMap[errorCode] || 500;
@@ -1,8 +1,8 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
-import { config, errorMessages } from '../config';
+import { config, webhookConfig, errorMessages } from '../config';
 import { DatabaseService } from '../services/database';
-import { ErrorUtils } from '../utils/helpers';
+import { ErrorUtils, UuidUtils, WebhookSignatureUtils } from '../utils/helpers';
 
 /**
  * Authentication Middleware
@@ -20,6 +20,7 @@ declare global {
         iat?: number;
         exp?: number;
       };
+      rawBody?: Buffer; // Captured by the JSON body parser for signature verification
     }
   }
 }
@@ -214,28 +215,119 @@ export const requireAdmin = async (
 };
 
 /**
- * Middleware to validate API key for webhook endpoints
+ * Database recording webhook nonces, so a nonce used on one instance is rejected on all
  */
-export const validateApiKey = (req: Request, res: Response, next: NextFunction): void => {
+let webhookNonceDb: DatabaseService | null = null;
+let webhookNoncesPrunedAt = 0;
+
+const getWebhookNonceDb = (): DatabaseService => {
+  if (!webhookNonceDb) {
+    webhookNonceDb = new DatabaseService();
+  }
+  return webhookNonceDb;
+};
+
+/**
+ * Delete expired nonces, at most once per prune interval
+ */
+const pruneWebhookNonces = (now: number): void => {
+  if (now - webhookNoncesPrunedAt < webhookConfig.noncePruneIntervalMs) {
+    return;
+  }
+  webhookNoncesPrunedAt = now;
+
+  getWebhookNonceDb()
+    .deleteExpiredWebhookNonces(new Date(now))
+    .catch((error) => console.error('Webhook nonce pruning failed:', error));
+};
+
+/**
+ * Middleware to verify HMAC-signed webhook requests
+ *
+ * Rejects requests with a missing or invalid signature, a timestamp outside the
+ * configured tolerance window, or a nonce that has already been used.
+ */
+export const verifyWebhookSignature = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
   try {
-    const apiKey = req.headers['x-api-key'] || req.headers['authorization']?.replace('Bearer ', '');
+    if (!webhookConfig.signingSecret) {
+      console.error('Webhook signing secret is not configured');
+      res.status(500).json({
+        success: false,
+        error: 'WEBHOOK_SIGNING_NOT_CONFIGURED',
+        message: errorMessages.INTERNAL_SERVER_ERROR,
+      });
+      return;
+    }
 
-    // In production, you would validate against stored API keys
-    // For demo purposes, we'll use a simple check
-    const validApiKey = process.env.WEBHOOK_API_KEY || 'nika-webhook-secret-key';
+    const signature = req.get(webhookConfig.headers.signature);
+    const timestamp = req.get(webhookConfig.headers.timestamp);
+    const nonce = req.get(webhookConfig.headers.nonce);
 
-    if (!apiKey || apiKey !== validApiKey) {
+    if (!signature || !timestamp || !nonce) {
       res.status(401).json({
         success: false,
-        error: 'INVALID_API_KEY',
-        message: 'Invalid or missing API key',
+        error: 'MISSING_WEBHOOK_SIGNATURE',
+        message: errorMessages.MISSING_WEBHOOK_SIGNATURE,
+      });
+      return;
+    }
+
+    // Timestamp is unix seconds; reject anything outside the tolerance window
+    const now = Date.now();
+    const timestampMs = /^\d+$/.test(timestamp) ? parseInt(timestamp, 10) * 1000 : NaN;
+    if (
+      !Number.isFinite(timestampMs) ||
+      Math.abs(now - timestampMs) > webhookConfig.signatureToleranceMs
+    ) {
+      res.status(401).json({
+        success: false,
+        error: 'WEBHOOK_TIMESTAMP_OUT_OF_RANGE',
+        message: errorMessages.WEBHOOK_TIMESTAMP_OUT_OF_RANGE,
+      });
+      return;
+    }
+
+    const rawBody = req.rawBody || Buffer.alloc(0);
+    if (
+      !WebhookSignatureUtils.verify(
+        webhookConfig.signingSecret,
+        timestamp,
+        nonce,
+        rawBody,
+        signature
+      )
+    ) {
+      res.status(401).json({
+        success: false,
+        error: 'INVALID_WEBHOOK_SIGNATURE',
+        message: errorMessages.INVALID_WEBHOOK_SIGNATURE,
+      });
+      return;
+    }
+
+    pruneWebhookNonces(now);
+
+    // A nonce only needs to be remembered while its timestamp is still accepted
+    const isNewNonce = await getWebhookNonceDb().recordWebhookNonce(
+      nonce,
+      new Date(timestampMs + webhookConfig.signatureToleranceMs)
+    );
+    if (!isNewNonce) {
+      res.status(401).json({
+        success: false,
+        error: 'WEBHOOK_REPLAY_DETECTED',
+        message: errorMessages.WEBHOOK_REPLAY_DETECTED,
       });
       return;
     }
 
     next();
   } catch (error) {
-    console.error('API key validation error:', error);
+    console.error('Webhook signature validation error:', error);
     res.status(500).json({
       success: false,
       error: 'INTERNAL_SERVER_ERROR',
@@ -254,6 +346,26 @@ export const generateTestToken = (userId: string, email: string): string => {
   } as jwt.SignOptions);
 };
 
+/**
+ * Generate signed webhook headers for testing purposes
+ */
+export const generateTestWebhookHeaders = (rawBody: string): Record<string, string> => {
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const nonce = UuidUtils.generate();
+
+  return {
+    'Content-Type': 'application/json',
+    [webhookConfig.headers.timestamp]: timestamp,
+    [webhookConfig.headers.nonce]: nonce,
+    [webhookConfig.headers.signature]: WebhookSignatureUtils.sign(
+      webhookConfig.signingSecret,
+      timestamp,
+      nonce,
+      rawBody
+    ),
+  };
+};
+
 /**
  * Middleware to extract user ID from various sources
  */
@@ -389,6 +389,9 @@ export const commonSchemas = {
     chain: Joi.string().valid('EVM', 'SVM').required(),
     network: Joi.string().valid('Arbitrum', 'Ethereum', 'Polygon', 'Solana').required(),
     transactionHash: Joi.string().optional(),
+    externalTradeId: Joi.string().max(128).optional(),
+    status: Joi.string().valid('PENDING', 'COMPLETED').default('COMPLETED'),
+    liquidityRole: Joi.string().valid('MAKER', 'TAKER').default('TAKER'),
   }),
 
   // Claim request schema
@@ -5,7 +5,7 @@ import {
   validateUserAccess,
   optionalAuth,
   requireAdmin,
-  validateApiKey,
+  verifyWebhookSignature,
   rateLimitByUser,
 } from '../middleware/auth';
 import {
@@ -19,6 +19,11 @@ import {
   sanitizeInput,
   commonSchemas,
 } from '../middleware/validation';
+import { DatabaseService } from '../services/database';
+import { ReferralService } from '../services/referralService';
+import { TradeIngestionWorker } from '../services/tradeIngestionWorker';
+import { AmbassadorTierWorker } from '../services/ambassadorTierWorker';
+import { FeeTierWorker } from '../services/feeTierWorker';
 
 /**
  * Referral Routes
@@ -27,7 +32,20 @@ import {
  */
 
 const router: Router = Router();
-const referralController = new ReferralController();
+
+// One database connection pool, shared by the handlers and the workers
+const db = new DatabaseService();
+const referralService = new ReferralService(db);
+const referralController = new ReferralController(referralService);
+
+// Processes trades accepted by POST /trade; started by the server
+export const tradeIngestionWorker = new TradeIngestionWorker(referralService, db);
+
+// Re-evaluates referrers' ambassador tiers; started by the server
+export const ambassadorTierWorker = new AmbassadorTierWorker(referralService);
+
+// Re-evaluates traders' fee tiers; started by the server
+export const feeTierWorker = new FeeTierWorker(referralService);
 
 // Initialize controller
 referralController.initialize().catch(console.error);
@@ -63,6 +81,17 @@ router.post(
   referralController.generateReferralCode
 );
 
+// Set the kickback a referrer gives back to their referees
+router.put(
+  '/kickback/:userId',
+  authenticateToken,
+  validateContentType(),
+  validateUuid('userId'),
+  validateUserAccess,
+  rateLimitByUser(5, 60 * 1000), // 5 updates per minute
+  referralController.updateKickbackRate
+);
+
 // Get user's referral network
 router.get(
   '/network/:userId?',
@@ -96,6 +125,16 @@ router.post(
   referralController.validateClaimRequest
 );
 
+// Get user's fee tier, effective rate and progress to the next tier
+router.get(
+  '/fee-tier/:userId',
+  authenticateToken,
+  validateUuid('userId'),
+  validateUserAccess,
+  rateLimitByUser(30, 60 * 1000), // 30 requests per minute
+  referralController.getFeeTierStatus
+);
+
 // Update user's fee tier
 router.put(
   '/fee-tier/:userId',
@@ -119,14 +158,165 @@ router.get(
   referralController.getPlatformStatistics
 );
 
+// Dry-run a trade's fees and commissions (admin)
+router.post(
+  '/simulate',
+  authenticateToken,
+  requireAdmin,
+  validateContentType(),
+  sanitizeInput,
+  rateLimitByUser(100, 60 * 1000), // 100 requests per minute for admins
+  referralController.simulateTrade
+);
+
+// Inspect trade ingestion entries (e.g. ?status=DEAD_LETTER)
+router.get(
+  '/admin/trade-inbox',
+  authenticateToken,
+  requireAdmin,
+  validatePagination,
+  rateLimitByUser(100, 60 * 1000), // 100 requests per minute for admins
+  referralController.getTradeInboxEntries
+);
+
+router.get(
+  '/admin/trade-inbox/:ingestionId',
+  authenticateToken,
+  requireAdmin,
+  validateUuid('ingestionId'),
+  rateLimitByUser(100, 60 * 1000), // 100 requests per minute for admins
+  referralController.getTradeInboxEntry
+);
+
+// Requeue a dead-lettered trade ingestion entry
+router.post(
+  '/admin/trade-inbox/:ingestionId/replay',
+  authenticateToken,
+  requireAdmin,
+  validateUuid('ingestionId'),
+  rateLimitByUser(100, 60 * 1000), // 100 requests per minute for admins
+  referralController.replayTradeInboxEntry
+);
+
+// Commission plan versions
+router.get(
+  '/admin/commission-plans',
+  authenticateToken,
+  requireAdmin,
+  rateLimitByUser(100, 60 * 1000), // 100 requests per minute for admins
+  referralController.getCommissionPlans
+);
+
+// Publish a new commission plan version, effective now or at a future date
+router.post(
+  '/admin/commission-plans',
+  authenticateToken,
+  requireAdmin,
+  rateLimitByUser(10, 60 * 1000), // 10 plan changes per minute
+  referralController.createCommissionPlan
+);
+
+// Fee tiers, inactive ones included
+router.get(
+  '/admin/fee-tiers',
+  authenticateToken,
+  requireAdmin,
+  rateLimitByUser(100, 60 * 1000), // 100 requests per minute for admins
+  referralController.getFeeTiers
+);
+
+// Create a fee tier; the schedule must stay consistent
+router.post(
+  '/admin/fee-tiers',
+  authenticateToken,
+  requireAdmin,
+  validateContentType(),
+  sanitizeInput,
+  rateLimitByUser(10, 60 * 1000), // 10 tier changes per minute
+  referralController.createFeeTier
+);
+
+// Swap or reorder the priorities of a schedule's tiers in one change
+router.put(
+  '/admin/fee-tiers/priorities',
+  authenticateToken,
+  requireAdmin,
+  validateContentType(),
+  sanitizeInput,
+  rateLimitByUser(10, 60 * 1000), // 10 tier changes per minute
+  referralController.reorderFeeTiers
+);
+
+// Update, deactivate or reactivate a fee tier
+router.patch(
+  '/admin/fee-tiers/:tierId',
+  authenticateToken,
+  requireAdmin,
+  validateContentType(),
+  sanitizeInput,
+  rateLimitByUser(10, 60 * 1000), // 10 tier changes per minute
+  referralController.updateFeeTier
+);
+
+// Promotional fee campaigns
+router.get(
+  '/admin/fee-campaigns',
+  authenticateToken,
+  requireAdmin,
+  rateLimitByUser(100, 60 * 1000), // 100 requests per minute for admins
+  referralController.getFeeCampaigns
+);
+
+// Create a time-boxed fee campaign
+router.post(
+  '/admin/fee-campaigns',
+  authenticateToken,
+  requireAdmin,
+  validateContentType(),
+  sanitizeInput,
+  rateLimitByUser(10, 60 * 1000), // 10 campaign changes per minute
+  referralController.createFeeCampaign
+);
+
+// Update a fee campaign, or end it early
+router.patch(
+  '/admin/fee-campaigns/:campaignId',
+  authenticateToken,
+  requireAdmin,
+  validateContentType(),
+  sanitizeInput,
+  rateLimitByUser(10, 60 * 1000), // 10 campaign changes per minute
+  referralController.updateFeeCampaign
+);
+
+// Recalculate a user's commissions over a date range (preview unless preview=false)
+router.post(
+  '/admin/commission-recalculations',
+  authenticateToken,
+  requireAdmin,
+  validateContentType(),
+  sanitizeInput,
+  rateLimitByUser(10, 60 * 1000), // 10 recalculations per minute
+  referralController.recalculateCommissions
+);
+
+// Prove the books balance
+router.get(
+  '/admin/ledger/integrity',
+  authenticateToken,
+  requireAdmin,
+  rateLimitByUser(10, 60 * 1000), // 10 checks per minute
+  referralController.getLedgerIntegrity
+);
+
 /**
- * WEBHOOK ROUTES (Require API key authentication)
+ * WEBHOOK ROUTES (Require HMAC-signed requests)
  */
 
-// Process trade and distribute commissions
+// Accept trade into the inbox; commissions are distributed by the ingestion worker
 router.post(
   '/trade',
-  validateApiKey,
+  verifyWebhookSignature,
   validateContentType(),
   sanitizeInput,
   validate(commonSchemas.tradeWebhook),
@@ -134,6 +324,45 @@ router.post(
   referralController.processTradeWebhook
 );
 
+// Process a block of trades in one request
+router.post(
+  '/trades/batch',
+  verifyWebhookSignature,
+  validateContentType(),
+  rateLimitByUser(100, 60 * 1000), // 100 batches per minute
+  referralController.processTradeBatch
+);
+
+// Settle a pending trade with its final transaction hash
+router.post(
+  '/trade/:tradeId/settle',
+  verifyWebhookSignature,
+  validateContentType(),
+  sanitizeInput,
+  rateLimitByUser(1000, 60 * 1000), // 1000 settlements per minute
+  referralController.settleTrade
+);
+
+// Fail a pending trade that never settled
+router.post(
+  '/trade/:tradeId/fail',
+  verifyWebhookSignature,
+  validateContentType(),
+  sanitizeInput,
+  rateLimitByUser(1000, 60 * 1000), // 1000 failures per minute
+  referralController.failTrade
+);
+
+// Reverse a busted or rolled-back trade
+router.post(
+  '/trade/:tradeId/reverse',
+  verifyWebhookSignature,
+  validateContentType(),
+  sanitizeInput,
+  rateLimitByUser(100, 60 * 1000), // 100 reversals per minute
+  referralController.reverseTrade
+);
+
 /**
  * UTILITY MIDDLEWARE
  */
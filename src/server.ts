@@ -5,7 +5,11 @@ import morgan from 'morgan';
 import dotenv from 'dotenv';
 
 // Import routes
-import referralRoutes from './routes/referral';
+import referralRoutes, {
+  tradeIngestionWorker,
+  ambassadorTierWorker,
+  feeTierWorker,
+} from './routes/referral';
 
 // Import configuration
 import { config, apiConfig } from './config';
@@ -63,8 +67,14 @@ class Server {
       cors({
         origin: apiConfig.cors.origin,
         credentials: apiConfig.cors.credentials,
-        methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-        allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key'],
+        methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
+        allowedHeaders: [
+          'Content-Type',
+          'Authorization',
+          'X-Nika-Signature',
+          'X-Nika-Timestamp',
+          'X-Nika-Nonce',
+        ],
       })
     );
 
@@ -74,7 +84,15 @@ class Server {
     }
 
     // Body parsing middleware
-    this.app.use(express.json({ limit: '10mb' }));
+    this.app.use(
+      express.json({
+        limit: '10mb',
+        // Keep the raw body for webhook signature verification
+        verify: (req: Request, res: Response, buf: Buffer) => {
+          req.rawBody = buf;
+        },
+      })
+    );
     this.app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
     // Request timeout middleware
@@ -123,17 +141,44 @@ class Server {
           referral: {
             'POST /api/referral/register': 'Register user with referral code',
             'POST /api/referral/generate': 'Generate referral code for user',
+            'PUT /api/referral/kickback/:userId': 'Set kickback given back to referees',
+            'POST /api/referral/simulate': "Dry-run a trade's fees and commissions (admin)",
             'GET /api/referral/network/:userId': 'Get user referral network',
             'GET /api/referral/earnings/:userId': 'Get user earnings breakdown',
             'POST /api/referral/claim': 'Validate claim request',
             'GET /api/referral/validate-code/:code': 'Validate referral code',
+            'GET /api/referral/fee-tier/:userId': 'Get user fee tier, rate and progress',
             'PUT /api/referral/fee-tier/:userId': 'Update user fee tier',
             'GET /api/referral/statistics': 'Get platform statistics (admin)',
-            'POST /api/webhook/trade': 'Process trade webhook',
+            'GET /api/referral/admin/trade-inbox': 'List trade ingestion entries (admin)',
+            'GET /api/referral/admin/trade-inbox/:ingestionId': 'Inspect a trade ingestion (admin)',
+            'POST /api/referral/admin/trade-inbox/:ingestionId/replay':
+              'Replay a dead-lettered trade ingestion (admin)',
+            'GET /api/referral/admin/commission-plans': 'List commission plan versions (admin)',
+            'POST /api/referral/admin/commission-plans':
+              'Publish a commission plan version (admin)',
+            'GET /api/referral/admin/fee-tiers': 'List fee tiers (admin)',
+            'POST /api/referral/admin/fee-tiers': 'Create a fee tier (admin)',
+            'PUT /api/referral/admin/fee-tiers/priorities': 'Reorder fee tiers (admin)',
+            'PATCH /api/referral/admin/fee-tiers/:tierId':
+              'Update, deactivate or reactivate a fee tier (admin)',
+            'GET /api/referral/admin/fee-campaigns': 'List fee campaigns (admin)',
+            'POST /api/referral/admin/fee-campaigns': 'Create a fee campaign (admin)',
+            'PATCH /api/referral/admin/fee-campaigns/:campaignId':
+              'Update or end a fee campaign (admin)',
+            'POST /api/referral/admin/commission-recalculations':
+              'Recalculate commissions over a date range (admin)',
+            'GET /api/referral/admin/ledger/integrity': 'Check that the ledger balances (admin)',
+            'POST /api/webhook/trade': 'Accept trade webhook for asynchronous processing (202)',
+            'POST /api/webhook/trades/batch': 'Process a batch of trades',
+            'POST /api/webhook/trade/:tradeId/settle': 'Settle a pending trade',
+            'POST /api/webhook/trade/:tradeId/fail': 'Fail a pending trade',
+            'POST /api/webhook/trade/:tradeId/reverse': 'Reverse a trade and claw back commissions',
           },
         },
         authentication: 'Bearer JWT token required for authenticated endpoints',
-        webhooks: 'API key required in X-API-Key header',
+        webhooks:
+          'HMAC-SHA256 signature of "<timestamp>.<nonce>.<raw body>" required in X-Nika-Signature, with X-Nika-Timestamp (unix seconds) and X-Nika-Nonce headers',
       });
     });
   }
@@ -157,13 +202,34 @@ class Server {
           'GET /api/docs',
           'POST /api/referral/register',
           'POST /api/referral/generate',
+          'PUT /api/referral/kickback/:userId',
+          'POST /api/referral/simulate',
           'GET /api/referral/network/:userId',
           'GET /api/referral/earnings/:userId',
           'POST /api/referral/claim',
           'GET /api/referral/validate-code/:code',
+          'GET /api/referral/fee-tier/:userId',
           'PUT /api/referral/fee-tier/:userId',
           'GET /api/referral/statistics',
+          'GET /api/referral/admin/trade-inbox',
+          'GET /api/referral/admin/trade-inbox/:ingestionId',
+          'POST /api/referral/admin/trade-inbox/:ingestionId/replay',
+          'GET /api/referral/admin/commission-plans',
+          'POST /api/referral/admin/commission-plans',
+          'GET /api/referral/admin/fee-tiers',
+          'POST /api/referral/admin/fee-tiers',
+          'PUT /api/referral/admin/fee-tiers/priorities',
+          'PATCH /api/referral/admin/fee-tiers/:tierId',
+          'GET /api/referral/admin/fee-campaigns',
+          'POST /api/referral/admin/fee-campaigns',
+          'PATCH /api/referral/admin/fee-campaigns/:campaignId',
+          'POST /api/referral/admin/commission-recalculations',
+          'GET /api/referral/admin/ledger/integrity',
           'POST /api/webhook/trade',
+          'POST /api/webhook/trades/batch',
+          'POST /api/webhook/trade/:tradeId/settle',
+          'POST /api/webhook/trade/:tradeId/fail',
+          'POST /api/webhook/trade/:tradeId/reverse',
         ],
       });
     });
@@ -293,6 +359,11 @@ class Server {
   private gracefulShutdown(signal: string): void {
     console.log(`Graceful shutdown initiated by ${signal}`);
 
+    // Stop picking up new inbox entries and scheduled tier evaluations
+    tradeIngestionWorker.stop();
+    ambassadorTierWorker.stop();
+    feeTierWorker.stop();
+
     // Close server
     if (this.server) {
       this.server.close(() => {
@@ -368,6 +439,15 @@ class Server {
           throw error;
       }
     });
+
+    // Process trades accepted by the webhook
+    tradeIngestionWorker.start();
+
+    // Keep ambassador tiers in step with referrers' network activity
+    ambassadorTierWorker.start();
+
+    // Keep fee tiers in step with traders' rolling volume
+    feeTierWorker.start();
   }
 
   /**
@@ -0,0 +1,69 @@
+import { ReferralService } from './referralService';
+import { ambassadorConfig } from '../config';
+import { AmbassadorTierEvaluationResult } from '../types';
+
+/**
+ * Ambassador Tier Worker - Re-evaluates referrers' ambassador tiers on a schedule
+ *
+ * Runs an evaluation when started and then every configured interval, so tiers
+ * follow the referrers' rolling network volume and active referee count. Only one
+ * instance evaluates at a time.
+ */
+export class AmbassadorTierWorker {
+  private referralService: ReferralService;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(referralService?: ReferralService) {
+    this.referralService = referralService || new ReferralService();
+  }
+
+  /**
+   * Start evaluating on the configured interval
+   */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.scheduleNextRun(0);
+  }
+
+  /**
+   * Stop evaluating; an in-flight run finishes on its own
+   */
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Evaluate every referrer's tier once; null when another instance is evaluating
+   */
+  async runOnce(at: Date = new Date()): Promise<AmbassadorTierEvaluationResult | null> {
+    const result = await this.referralService.evaluateAmbassadorTiers(at);
+
+    if (result && result.changes.length > 0) {
+      console.log(
+        `Ambassador tiers re-evaluated: ${result.changes.length} of ${result.evaluated} referrers changed tier`
+      );
+    }
+
+    return result;
+  }
+
+  private scheduleNextRun(delayMs: number): void {
+    this.timer = setTimeout(async () => {
+      try {
+        await this.runOnce();
+      } catch (error) {
+        console.error('Ambassador tier evaluation failed:', error);
+      }
+
+      if (this.running) {
+        this.scheduleNextRun(ambassadorConfig.evaluationIntervalMs);
+      }
+    }, delayMs);
+  }
+}
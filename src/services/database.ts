@@ -6,6 +6,13 @@ import {
   Trade,
   Claim,
   FeeTier,
+  FeeTierHistoryEntry,
+  FeeCampaign,
+  CreateFeeCampaignRequest,
+  UpdateFeeCampaignRequest,
+  CommissionPlan,
+  CommissionCaps,
+  AmbassadorMetrics,
   ReferralNetwork,
   CommissionStatus,
   TradeStatus,
@@ -14,9 +21,17 @@ import {
   UpdateUserData,
   PaginationParams,
   FilterParams,
+  TradeInboxEntry,
+  TradeInboxStatus,
+  TradeWebhookRequest,
+  TradeWebhookResponse,
+  JournalEntryDraft,
+  JournalEntryType,
+  LedgerAccount,
 } from '../types';
-import { businessRules, errorMessages } from '../config';
+import { advisoryLockKeys, businessRules, errorMessages } from '../config';
 import { ErrorUtils } from '../utils/helpers';
+import { JournalBuilder } from '../utils/journalBuilder';
 
 /**
  * Database Service - Handles all database operations using Prisma
@@ -126,6 +141,19 @@ export class DatabaseService {
     }) as Promise<User | null>;
   }
 
+  /**
+   * Find users by IDs
+   */
+  async findUsersByIds(ids: string[]): Promise<User[]> {
+    if (ids.length === 0) return [];
+
+    const users = await this.prisma.user.findMany({
+      where: { id: { in: ids } },
+    });
+
+    return users as any[];
+  }
+
   /**
    * Find user by email
    */
@@ -216,6 +244,18 @@ export class DatabaseService {
     };
   }
 
+  /**
+   * Get referees with no referral expiry on record, with their referrers
+   */
+  async getRefereesWithoutReferralExpiry(): Promise<(User & { referrer: User })[]> {
+    const referees = await this.prisma.user.findMany({
+      where: { referrerId: { not: null }, referralExpiresAt: null },
+      include: { referrer: true },
+    });
+
+    return referees as any[];
+  }
+
   /**
    * COMMISSION OPERATIONS
    */
@@ -281,16 +321,19 @@ export class DatabaseService {
     totalEarned: Decimal;
     totalUnclaimed: Decimal;
     totalClaimed: Decimal;
+    totalPending: Decimal;
+    totalCapped: Decimal;
     earningsByLevel: Record<number, Decimal>;
     earningsByToken: Record<string, Decimal>;
   }> {
     const commissions = await this.prisma.commission.findMany({
-      where: { earnerId: userId },
+      where: { earnerId: userId, status: { not: CommissionStatus.VOIDED } },
       select: {
         amount: true,
         status: true,
         commissionLevel: true,
         tokenType: true,
+        cappedAmount: true,
       },
     });
 
@@ -298,12 +341,26 @@ export class DatabaseService {
       totalEarned: new Decimal(0),
       totalUnclaimed: new Decimal(0),
       totalClaimed: new Decimal(0),
+      totalPending: new Decimal(0),
+      totalCapped: new Decimal(0),
       earningsByLevel: {} as Record<number, Decimal>,
       earningsByToken: {} as Record<string, Decimal>,
     };
 
     commissions.forEach((commission: any) => {
       const amount = new Decimal(commission.amount.toString());
+
+      // Withheld by commission caps, never part of the earnings
+      if (commission.cappedAmount) {
+        stats.totalCapped = stats.totalCapped.add(commission.cappedAmount.toString());
+      }
+
+      // Commissions of unsettled trades are tracked separately until settlement
+      if (commission.status === CommissionStatus.PENDING) {
+        stats.totalPending = stats.totalPending.add(amount);
+        return;
+      }
+
       stats.totalEarned = stats.totalEarned.add(amount);
 
       if (commission.status === CommissionStatus.CLAIMED) {
@@ -330,6 +387,31 @@ export class DatabaseService {
     return stats;
   }
 
+  /**
+   * Get a user's accrued dust balance (USD), zero if none accrued yet
+   */
+  async getCommissionDust(userId: string): Promise<Decimal> {
+    const dust = await this.prisma.commissionDust.findUnique({ where: { earnerId: userId } });
+    return new Decimal(dust?.amount.toString() || 0);
+  }
+
+  /**
+   * Get the total of kickbacks a user gave back to their referees
+   *
+   * Kickbacks are level-0 commissions earned by the user's direct referees.
+   */
+  async getKickbacksGiven(userId: string): Promise<Decimal> {
+    const result = await this.prisma.commission.aggregate({
+      where: {
+        commissionLevel: 0,
+        status: { notIn: [CommissionStatus.VOIDED, CommissionStatus.PENDING] },
+        earner: { referrerId: userId },
+      },
+      _sum: { amount: true },
+    });
+    return new Decimal(result._sum.amount?.toString() || 0);
+  }
+
   /**
    * TRADE OPERATIONS
    */
@@ -345,6 +427,123 @@ export class DatabaseService {
     return trade as Trade;
   }
 
+  /**
+   * Find a previously processed trade by its idempotency key, including its commissions
+   */
+  async findTradeByIdempotencyKey(
+    idempotencyKey: string
+  ): Promise<(Trade & { commissions: Commission[] }) | null> {
+    const trade = await this.prisma.trade.findUnique({
+      where: { idempotencyKey },
+      include: {
+        commissions: {
+          orderBy: { commissionLevel: 'asc' },
+        },
+      },
+    });
+
+    return trade as (Trade & { commissions: Commission[] }) | null;
+  }
+
+  /**
+   * Find a trade by our trade ID or the upstream trade ID, including its commissions
+   */
+  async findTradeByReference(
+    reference: string
+  ): Promise<(Trade & { commissions: Commission[] }) | null> {
+    const trade = await this.prisma.trade.findFirst({
+      where: {
+        OR: [{ id: reference }, { idempotencyKey: `ext:${reference}` }],
+      },
+      include: {
+        commissions: {
+          orderBy: { commissionLevel: 'asc' },
+        },
+      },
+    });
+
+    return trade as (Trade & { commissions: Commission[] }) | null;
+  }
+
+  /**
+   * Get a user's trade volume (USD) from the daily rollups since a UTC day
+   */
+  async getRollingVolume(userId: string, since: Date, tx: any = this.prisma): Promise<Decimal> {
+    const result = await tx.dailyVolume.aggregate({
+      where: { userId, day: { gte: since } },
+      _sum: { volume: true },
+    });
+    return new Decimal(result._sum.volume?.toString() || 0);
+  }
+
+  /**
+   * Get a user's fee tier changes, newest first
+   */
+  async getFeeTierHistory(userId: string): Promise<FeeTierHistoryEntry[]> {
+    const history = await this.prisma.feeTierHistory.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return history as FeeTierHistoryEntry[];
+  }
+
+  /**
+   * Get the users whose fee tier needs re-evaluating, with their volume since a UTC day
+   *
+   * Those are users with volume in the window, a tier above base or a pending downgrade.
+   */
+  async getFeeTierEvaluationCandidates(
+    since: Date
+  ): Promise<
+    { user: Pick<User, 'id' | 'feeTier' | 'feeTierDowngradeAt'>; rollingVolume: Decimal }[]
+  > {
+    const volumes = await this.prisma.dailyVolume.groupBy({
+      by: ['userId'],
+      where: { day: { gte: since } },
+      _sum: { volume: true },
+    });
+    const volumeByUser = new Map<string, Decimal>(
+      volumes.map((row: any) => [row.userId, new Decimal(row._sum.volume?.toString() || 0)])
+    );
+
+    const users = await this.prisma.user.findMany({
+      where: {
+        OR: [
+          { id: { in: Array.from(volumeByUser.keys()) } },
+          { feeTier: { not: 'BASE' } },
+          { feeTierDowngradeAt: { not: null } },
+        ],
+      },
+      select: { id: true, feeTier: true, feeTierDowngradeAt: true },
+    });
+
+    return users.map((user: any) => ({
+      user,
+      rollingVolume: volumeByUser.get(user.id) || new Decimal(0),
+    }));
+  }
+
+  /**
+   * Find previously processed trades for a set of idempotency keys, including their commissions
+   */
+  async findTradesByIdempotencyKeys(
+    idempotencyKeys: string[]
+  ): Promise<(Trade & { commissions: Commission[] })[]> {
+    if (idempotencyKeys.length === 0) return [];
+
+    const trades = await this.prisma.trade.findMany({
+      where: { idempotencyKey: { in: idempotencyKeys } },
+      include: {
+        commissions: {
+          orderBy: { commissionLevel: 'asc' },
+        },
+      },
+    });
+
+    return trades as (Trade & { commissions: Commission[] })[];
+  }
+
   /**
    * Update trade status
    */
@@ -385,6 +584,207 @@ export class DatabaseService {
     };
   }
 
+  /**
+   * WEBHOOK NONCE OPERATIONS
+   */
+
+  /**
+   * Record a webhook nonce until `expiresAt`, returning false when it is already in use
+   *
+   * The insert is the check, so concurrent requests on any instance can't both pass.
+   */
+  async recordWebhookNonce(nonce: string, expiresAt: Date): Promise<boolean> {
+    try {
+      await this.prisma.webhookNonce.create({
+        data: { nonce, expiresAt },
+      });
+      return true;
+    } catch (error: any) {
+      if (error.code !== 'P2002') {
+        throw error;
+      }
+
+      // An expired nonce that hasn't been pruned yet may be used again
+      const { count } = await this.prisma.webhookNonce.updateMany({
+        where: { nonce, expiresAt: { lt: new Date() } },
+        data: { expiresAt },
+      });
+      return count > 0;
+    }
+  }
+
+  /**
+   * Delete webhook nonces that expired before `before`
+   */
+  async deleteExpiredWebhookNonces(before: Date): Promise<number> {
+    const { count } = await this.prisma.webhookNonce.deleteMany({
+      where: { expiresAt: { lt: before } },
+    });
+
+    return count;
+  }
+
+  /**
+   * TRADE INBOX OPERATIONS
+   */
+
+  /**
+   * Store a raw trade webhook payload for asynchronous processing
+   *
+   * A payload whose idempotency key is already in the inbox is not stored again;
+   * the existing entry is returned instead.
+   */
+  async createTradeInboxEntry(
+    payload: TradeWebhookRequest,
+    idempotencyKey: string | null
+  ): Promise<TradeInboxEntry> {
+    try {
+      const entry = await this.prisma.tradeInbox.create({
+        data: { payload: payload as any, idempotencyKey },
+      });
+
+      return entry as unknown as TradeInboxEntry;
+    } catch (error: any) {
+      if (idempotencyKey && error.code === 'P2002') {
+        const entry = await this.prisma.tradeInbox.findUnique({
+          where: { idempotencyKey },
+        });
+        if (entry) {
+          return entry as unknown as TradeInboxEntry;
+        }
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Find a trade inbox entry by ingestion ID
+   */
+  async findTradeInboxEntryById(id: string): Promise<TradeInboxEntry | null> {
+    const entry = await this.prisma.tradeInbox.findUnique({
+      where: { id },
+    });
+
+    return entry as unknown as TradeInboxEntry | null;
+  }
+
+  /**
+   * List trade inbox entries with optional status filter and pagination
+   */
+  async getTradeInboxEntries(
+    status: TradeInboxStatus | undefined,
+    pagination: PaginationParams
+  ): Promise<{ entries: TradeInboxEntry[]; total: number }> {
+    const where = status ? { status } : {};
+
+    const [entries, total] = await this.prisma.$transaction([
+      this.prisma.tradeInbox.findMany({
+        where,
+        skip: pagination.offset,
+        take: pagination.limit,
+        orderBy: { createdAt: 'desc' },
+      }),
+      this.prisma.tradeInbox.count({ where }),
+    ]);
+
+    return {
+      entries: entries as unknown as TradeInboxEntry[],
+      total,
+    };
+  }
+
+  /**
+   * Claim up to `limit` due entries for processing
+   *
+   * Each entry is claimed with a conditional update so concurrent workers never
+   * process the same entry twice.
+   */
+  async claimDueTradeInboxEntries(limit: number): Promise<TradeInboxEntry[]> {
+    const candidates = await this.prisma.tradeInbox.findMany({
+      where: { status: TradeInboxStatus.PENDING, nextAttemptAt: { lte: new Date() } },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: limit,
+    });
+
+    const claimed: TradeInboxEntry[] = [];
+    for (const candidate of candidates) {
+      const { count } = await this.prisma.tradeInbox.updateMany({
+        where: { id: candidate.id, status: TradeInboxStatus.PENDING },
+        data: { status: TradeInboxStatus.PROCESSING, attempts: { increment: 1 } },
+      });
+
+      if (count > 0) {
+        claimed.push({
+          ...(candidate as unknown as TradeInboxEntry),
+          status: TradeInboxStatus.PROCESSING,
+          attempts: candidate.attempts + 1,
+        });
+      }
+    }
+
+    return claimed;
+  }
+
+  /**
+   * Return entries stuck in PROCESSING since before `staleBefore` to the queue
+   */
+  async releaseStaleTradeInboxEntries(staleBefore: Date): Promise<number> {
+    const { count } = await this.prisma.tradeInbox.updateMany({
+      where: { status: TradeInboxStatus.PROCESSING, updatedAt: { lt: staleBefore } },
+      data: { status: TradeInboxStatus.PENDING, nextAttemptAt: new Date() },
+    });
+
+    return count;
+  }
+
+  /**
+   * Mark an entry as successfully processed
+   */
+  async completeTradeInboxEntry(id: string, result: TradeWebhookResponse): Promise<void> {
+    await this.prisma.tradeInbox.update({
+      where: { id },
+      data: {
+        status: TradeInboxStatus.COMPLETED,
+        tradeId: result.tradeId,
+        result: JSON.parse(JSON.stringify(result)),
+        processedAt: new Date(),
+        lastError: null,
+        lastErrorCode: null,
+      },
+    });
+  }
+
+  /**
+   * Record a failed attempt: reschedule it, or dead-letter it when nextAttemptAt is null
+   */
+  async failTradeInboxEntry(
+    id: string,
+    error: { code: string; message: string },
+    nextAttemptAt: Date | null
+  ): Promise<void> {
+    await this.prisma.tradeInbox.update({
+      where: { id },
+      data: {
+        status: nextAttemptAt ? TradeInboxStatus.PENDING : TradeInboxStatus.DEAD_LETTER,
+        ...(nextAttemptAt && { nextAttemptAt }),
+        lastError: error.message,
+        lastErrorCode: error.code,
+      },
+    });
+  }
+
+  /**
+   * Put a dead-lettered entry back on the queue with a fresh retry budget
+   */
+  async requeueTradeInboxEntry(id: string): Promise<TradeInboxEntry | null> {
+    const { count } = await this.prisma.tradeInbox.updateMany({
+      where: { id, status: TradeInboxStatus.DEAD_LETTER },
+      data: { status: TradeInboxStatus.PENDING, attempts: 0, nextAttemptAt: new Date() },
+    });
+
+    return count > 0 ? this.findTradeInboxEntryById(id) : null;
+  }
+
   /**
    * CLAIM OPERATIONS
    */
@@ -399,13 +799,20 @@ export class DatabaseService {
         data: claimData,
       });
 
-      // Update commissions to claimed status
-      await tx.commission.updateMany({
+      const commissions = await tx.commission.findMany({
         where: {
           earnerId: claimData.userId,
           status: CommissionStatus.UNCLAIMED,
           tokenType: claimData.tokenType,
         },
+      });
+
+      // Update commissions to claimed status
+      const { count } = await tx.commission.updateMany({
+        where: {
+          id: { in: commissions.map((commission: any) => commission.id) },
+          status: CommissionStatus.UNCLAIMED,
+        },
         data: {
           status: CommissionStatus.CLAIMED,
           claimedAt: new Date(),
@@ -413,6 +820,19 @@ export class DatabaseService {
         },
       });
 
+      // A concurrent claim or reversal changed the commissions under us
+      if (count !== commissions.length) {
+        throw ErrorUtils.createApiError(
+          'COMMISSION_ALREADY_CLAIMED',
+          errorMessages.COMMISSION_ALREADY_CLAIMED
+        );
+      }
+
+      await this.postJournalEntry(
+        JournalBuilder.buildClaimEntry(claim.id, claimData.userId, commissions),
+        tx
+      );
+
       return claim as Claim;
     });
   }
@@ -457,6 +877,82 @@ export class DatabaseService {
     return tiers as FeeTier[];
   }
 
+  /**
+   * Get fee tiers including inactive ones, optionally of one trade type
+   */
+  async getAllFeeTiers(tradeType?: string): Promise<FeeTier[]> {
+    const tiers = await this.prisma.feeTier.findMany({
+      where: tradeType ? { tradeType } : {},
+      orderBy: [{ tradeType: 'asc' }, { priority: 'asc' }],
+    });
+
+    return tiers as FeeTier[];
+  }
+
+  /**
+   * Find fee tier by ID
+   */
+  async findFeeTierById(id: string): Promise<FeeTier | null> {
+    const tier = await this.prisma.feeTier.findUnique({
+      where: { id },
+    });
+
+    return tier as FeeTier | null;
+  }
+
+  /**
+   * Get all fee campaigns, newest first
+   */
+  async getFeeCampaigns(): Promise<FeeCampaign[]> {
+    const campaigns = await this.prisma.feeCampaign.findMany({
+      orderBy: { startsAt: 'desc' },
+    });
+
+    return campaigns as FeeCampaign[];
+  }
+
+  /**
+   * Get the active fee campaigns that have not ended at a point in time
+   */
+  async getCurrentFeeCampaigns(at: Date): Promise<FeeCampaign[]> {
+    const campaigns = await this.prisma.feeCampaign.findMany({
+      where: { isActive: true, endsAt: { gt: at } },
+    });
+
+    return campaigns as FeeCampaign[];
+  }
+
+  /**
+   * Find fee campaign by ID
+   */
+  async findFeeCampaignById(id: string): Promise<FeeCampaign | null> {
+    const campaign = await this.prisma.feeCampaign.findUnique({
+      where: { id },
+    });
+
+    return campaign as FeeCampaign | null;
+  }
+
+  /**
+   * Create a fee campaign
+   */
+  async createFeeCampaign(data: CreateFeeCampaignRequest): Promise<FeeCampaign> {
+    const campaign = await this.prisma.feeCampaign.create({ data });
+    return campaign as FeeCampaign;
+  }
+
+  /**
+   * Update a fee campaign
+   */
+  async updateFeeCampaign(id: string, data: UpdateFeeCampaignRequest): Promise<FeeCampaign> {
+    const campaign = await this.prisma.feeCampaign.update({
+      where: { id },
+      data,
+    });
+
+    return campaign as FeeCampaign;
+  }
+
   /**
    * Create or update fee tiers
    */
@@ -466,7 +962,7 @@ export class DatabaseService {
     const tiers = await this.prisma.$transaction(
       tiersData.map((data) =>
         this.prisma.feeTier.upsert({
-          where: { name: data.name },
+          where: { name_tradeType: { name: data.name, tradeType: data.tradeType } },
           update: data,
           create: data,
         })
@@ -476,6 +972,79 @@ export class DatabaseService {
     return tiers as FeeTier[];
   }
 
+  /**
+   * COMMISSION PLAN OPERATIONS
+   */
+
+  /**
+   * Get all commission plan versions, newest first
+   */
+  async getCommissionPlans(): Promise<CommissionPlan[]> {
+    const plans = await this.prisma.commissionPlan.findMany({
+      orderBy: { version: 'desc' },
+    });
+
+    return plans as any;
+  }
+
+  /**
+   * Record the configured schedule as plan version 1 when no plan exists yet
+   */
+  async ensureInitialCommissionPlan(levelRates: number[]): Promise<void> {
+    if ((await this.prisma.commissionPlan.count()) > 0) {
+      return;
+    }
+
+    // Upsert so instances starting at the same time don't collide on version 1
+    await this.prisma.commissionPlan.upsert({
+      where: { version: 1 },
+      update: {},
+      create: {
+        version: 1,
+        levelRates,
+        effectiveFrom: new Date(0),
+        description: 'Initial plan from configuration',
+      },
+    });
+  }
+
+  /**
+   * Create the next plan version; the current latest plan ends when the new one starts
+   */
+  async createCommissionPlan(data: {
+    levelRates: number[];
+    caps?: CommissionCaps;
+    effectiveFrom: Date;
+    description?: string;
+  }): Promise<CommissionPlan> {
+    return this.prisma.$transaction(async (tx: any) => {
+      const latest = await tx.commissionPlan.findFirst({
+        orderBy: { version: 'desc' },
+      });
+
+      if (latest && latest.effectiveFrom >= data.effectiveFrom) {
+        throw ErrorUtils.createApiError(
+          'COMMISSION_PLAN_CONFLICT',
+          errorMessages.COMMISSION_PLAN_CONFLICT,
+          { latestVersion: latest.version, latestEffectiveFrom: latest.effectiveFrom }
+        );
+      }
+
+      if (latest) {
+        await tx.commissionPlan.update({
+          where: { id: latest.id },
+          data: { effectiveTo: data.effectiveFrom },
+        });
+      }
+
+      const plan = await tx.commissionPlan.create({
+        data: { ...data, version: (latest?.version ?? 0) + 1 },
+      });
+
+      return plan as CommissionPlan;
+    });
+  }
+
   /**
    * REFERRAL NETWORK OPERATIONS
    */
@@ -531,6 +1100,276 @@ export class DatabaseService {
     return network as ReferralNetwork;
   }
 
+  /**
+   * Get the ambassador metrics of every referrer with network activity since a date
+   *
+   * Each trader's completed volume is added to every referrer up the chain, to the
+   * maximum referral depth; traders count as active referees of their direct referrer.
+   */
+  async getAmbassadorMetrics(since: Date): Promise<Map<string, AmbassadorMetrics>> {
+    const volumes = await this.prisma.trade.groupBy({
+      by: ['userId'],
+      where: { status: TradeStatus.COMPLETED, createdAt: { gte: since } },
+      _sum: { usdValue: true },
+    });
+
+    const metrics = new Map<string, AmbassadorMetrics>();
+    let volumeByUser = new Map<string, Decimal>(
+      volumes.map((row: any) => [row.userId, new Decimal(row._sum.usdValue?.toString() || 0)])
+    );
+
+    for (let depth = 1; depth <= businessRules.maxReferralDepth; depth++) {
+      if (volumeByUser.size === 0) break;
+
+      const users = await this.prisma.user.findMany({
+        where: { id: { in: Array.from(volumeByUser.keys()) }, referrerId: { not: null } },
+        select: { id: true, referrerId: true },
+      });
+
+      // Move the volume one level up, merging branches that share a referrer
+      const volumeByReferrer = new Map<string, Decimal>();
+      for (const user of users) {
+        const referrerId = user.referrerId as string;
+        const volume = volumeByUser.get(user.id)!;
+        const entry = metrics.get(referrerId) || {
+          networkVolume: new Decimal(0),
+          activeReferees: 0,
+        };
+
+        entry.networkVolume = entry.networkVolume.add(volume);
+        if (depth === 1 && volume.gt(0)) {
+          entry.activeReferees++;
+        }
+        metrics.set(referrerId, entry);
+
+        volumeByReferrer.set(
+          referrerId,
+          (volumeByReferrer.get(referrerId) || new Decimal(0)).add(volume)
+        );
+      }
+
+      volumeByUser = volumeByReferrer;
+    }
+
+    return metrics;
+  }
+
+  /**
+   * Get the current ambassador tier of every user holding one
+   */
+  async getAmbassadorTierHolders(): Promise<Map<string, string>> {
+    const users = await this.prisma.user.findMany({
+      where: { ambassadorTier: { not: null } },
+      select: { id: true, ambassadorTier: true },
+    });
+    return new Map(users.map((user: any) => [user.id, user.ambassadorTier]));
+  }
+
+  /**
+   * LEDGER OPERATIONS
+   */
+
+  /**
+   * Post a journal entry, within the given transaction if any
+   */
+  async postJournalEntry(entry: JournalEntryDraft, tx: any = this.prisma): Promise<void> {
+    if (entry.lines.length === 0) {
+      return;
+    }
+
+    const imbalance = JournalBuilder.getImbalance(entry);
+    if (!imbalance.isZero()) {
+      throw ErrorUtils.createApiError('LEDGER_UNBALANCED', errorMessages.LEDGER_UNBALANCED, {
+        type: entry.type,
+        imbalance: imbalance.toString(),
+      });
+    }
+
+    await tx.journalEntry.create({
+      data: {
+        type: entry.type,
+        tradeId: entry.tradeId,
+        claimId: entry.claimId,
+        lines: {
+          create: entry.lines.map((line) => ({
+            account: line.account,
+            userId: line.userId ?? null,
+            amount: line.amount,
+            reason: line.reason,
+          })),
+        },
+      },
+    });
+  }
+
+  /**
+   * Get a user's ledger balances by account (debits positive, credits negative)
+   */
+  async getLedgerBalances(userId: string): Promise<Partial<Record<LedgerAccount, Decimal>>> {
+    const rows = await this.prisma.journalLine.groupBy({
+      by: ['account'],
+      where: { userId },
+      _sum: { amount: true },
+    });
+
+    return Object.fromEntries(
+      rows.map((row: any) => [row.account, new Decimal(row._sum.amount?.toString() || 0)])
+    );
+  }
+
+  /**
+   * Get the balance of every account, per user for the per-user accounts
+   */
+  async getLedgerAccountBalances(
+    tx: any = this.prisma
+  ): Promise<{ account: LedgerAccount; userId: string | null; balance: Decimal }[]> {
+    const rows = await tx.journalLine.groupBy({
+      by: ['account', 'userId'],
+      _sum: { amount: true },
+    });
+
+    return rows.map((row: any) => ({
+      account: row.account,
+      userId: row.userId,
+      balance: new Decimal(row._sum.amount?.toString() || 0),
+    }));
+  }
+
+  /**
+   * Find journal entries whose lines don't sum to zero
+   */
+  async findUnbalancedJournalEntries(): Promise<
+    { entryId: string; type: string; imbalance: Decimal }[]
+  > {
+    const rows = await this.prisma.journalLine.groupBy({
+      by: ['entryId'],
+      _sum: { amount: true },
+      having: { amount: { _sum: { not: 0 } } },
+    });
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const entries = await this.prisma.journalEntry.findMany({
+      where: { id: { in: rows.map((row: any) => row.entryId) } },
+      select: { id: true, type: true },
+    });
+    const types = new Map(entries.map((entry: any) => [entry.id, entry.type as string]));
+
+    return rows.map((row: any) => ({
+      entryId: row.entryId,
+      type: types.get(row.entryId) || 'UNKNOWN',
+      imbalance: new Decimal(row._sum.amount?.toString() || 0),
+    }));
+  }
+
+  /**
+   * Derive the per-user ledger balances from the commission, trade and dust records
+   *
+   * Keyed by `${account}:${userId}`, with the ledger's sign (credits negative). Read
+   * within the given transaction if any, else in one of its own.
+   */
+  async getExpectedLedgerBalances(tx?: any): Promise<Map<string, Decimal>> {
+    const queries = (client: any) => [
+      client.commission.groupBy({
+        by: ['earnerId', 'status'],
+        where: { status: { not: CommissionStatus.VOIDED } },
+        orderBy: { earnerId: 'asc' },
+        _sum: { sourceAmount: true },
+      }),
+      client.trade.groupBy({
+        by: ['userId'],
+        where: { status: { in: [TradeStatus.COMPLETED, TradeStatus.PENDING] } },
+        orderBy: { userId: 'asc' },
+        _sum: { feeAmount: true, rebateAmount: true },
+      }),
+      client.commissionDust.findMany(),
+    ];
+    const [commissions, trades, dust] = tx
+      ? await Promise.all(queries(tx))
+      : await this.prisma.$transaction(queries(this.prisma));
+
+    const expected = new Map<string, Decimal>();
+    const add = (account: LedgerAccount, userId: string, amount: Decimal) => {
+      const key = `${account}:${userId}`;
+      expected.set(key, (expected.get(key) || new Decimal(0)).add(amount));
+    };
+
+    for (const row of commissions as any[]) {
+      const amount = new Decimal(row._sum.sourceAmount?.toString() || 0).neg();
+      const account =
+        row.status === CommissionStatus.PENDING
+          ? LedgerAccount.COMMISSIONS_PENDING
+          : row.status === CommissionStatus.CLAIMED
+            ? LedgerAccount.PAYOUT_CLEARING
+            : LedgerAccount.COMMISSIONS_PAYABLE;
+      add(account, row.earnerId, amount);
+    }
+
+    for (const row of trades as any[]) {
+      add(LedgerAccount.TRADER_FEES, row.userId, new Decimal(row._sum.feeAmount?.toString() || 0));
+      add(
+        LedgerAccount.TRADER_REBATES,
+        row.userId,
+        new Decimal(row._sum.rebateAmount?.toString() || 0).neg()
+      );
+    }
+
+    for (const balance of dust as any[]) {
+      add(
+        LedgerAccount.COMMISSION_DUST,
+        balance.earnerId,
+        new Decimal(balance.amount.toString()).neg()
+      );
+    }
+
+    return expected;
+  }
+
+  /**
+   * Post opening balances for the records that predate the journal, once
+   *
+   * Each per-user balance opens at what the records say minus what the journal
+   * already holds, both read from one snapshot so trades posted meanwhile cancel
+   * out. Platform revenue takes the remainder, including the skipped-ancestor
+   * shares of the former platform ledger. Returns the number of lines posted.
+   */
+  async postOpeningLedgerBalances(): Promise<number> {
+    return this.prisma.$transaction(
+      async (tx: any) => {
+        // Another instance starting at the same time is posting them
+        if (!(await this.tryAdvisoryLock(tx, advisoryLockKeys.ledgerBackfill))) {
+          return 0;
+        }
+
+        const posted = await tx.journalEntry.count({
+          where: { type: JournalEntryType.OPENING_BALANCE },
+        });
+        if (posted > 0) {
+          return 0;
+        }
+
+        const expected = await this.getExpectedLedgerBalances(tx);
+        for (const { account, userId, balance } of await this.getLedgerAccountBalances(tx)) {
+          if (userId) {
+            const key = `${account}:${userId}`;
+            expected.set(key, (expected.get(key) || new Decimal(0)).sub(balance));
+          }
+        }
+
+        const entry = JournalBuilder.buildOpeningBalanceEntry(
+          Array.from(expected, ([key, amount]) => {
+            const [account, userId] = key.split(':');
+            return { account: account as LedgerAccount, userId, amount };
+          })
+        );
+        await this.postJournalEntry(entry, tx);
+        return entry.lines.length;
+      },
+      { isolationLevel: Prisma.TransactionIsolationLevel.RepeatableRead, timeout: 60000 }
+    );
+  }
+
   /**
    * TRANSACTION HELPERS
    */
@@ -542,6 +1381,32 @@ export class DatabaseService {
     return this.prisma.$transaction(operations);
   }
 
+  /**
+   * Run a task while holding an advisory lock, so only one instance runs it at a time
+   *
+   * Returns null without running the task when another instance holds the lock. The
+   * lock belongs to a transaction kept open until the task (which runs its own
+   * queries outside it) finishes or `timeoutMs` passes.
+   */
+  async runExclusively<T>(
+    lockKey: number,
+    task: () => Promise<T>,
+    timeoutMs: number
+  ): Promise<T | null> {
+    return this.prisma.$transaction(
+      async (tx: any) => ((await this.tryAdvisoryLock(tx, lockKey)) ? task() : null),
+      { timeout: timeoutMs }
+    );
+  }
+
+  /**
+   * Take a transaction-level advisory lock if no one else holds it
+   */
+  private async tryAdvisoryLock(tx: any, lockKey: number): Promise<boolean> {
+    const [{ locked }] = await tx.$queryRaw`SELECT pg_try_advisory_xact_lock(${lockKey}) AS locked`;
+    return locked;
+  }
+
   /**
    * ANALYTICS QUERIES
    */
@@ -564,6 +1429,7 @@ export class DatabaseService {
           _sum: { volume: true },
         }),
         this.prisma.commission.aggregate({
+          where: { status: { notIn: [CommissionStatus.VOIDED, CommissionStatus.PENDING] } },
           _sum: { amount: true },
         }),
         this.prisma.user.count({
@@ -610,7 +1476,7 @@ export class DatabaseService {
         COALESCE(SUM(c.amount), 0) as total_earnings,
         COUNT(DISTINCT r.id) as referral_count
       FROM users u
-      LEFT JOIN commissions c ON u.id = c.earner_id
+      LEFT JOIN commissions c ON u.id = c.earner_id AND c.status NOT IN ('VOIDED', 'PENDING')
       LEFT JOIN users r ON u.id = r.referrer_id
       GROUP BY u.id, u.email, u.username
       HAVING COUNT(DISTINCT r.id) > 0
@@ -0,0 +1,70 @@
+import { ReferralService } from './referralService';
+import { feeTierConfig } from '../config';
+import { FeeTierEvaluationResult } from '../types';
+
+/**
+ * Fee Tier Worker - Re-evaluates traders' fee tiers on a schedule
+ *
+ * Runs an evaluation when started and then every configured interval, so tiers
+ * follow the traders' rolling volume and pending downgrades take effect once their
+ * grace period has passed. Only one instance evaluates at a time.
+ */
+export class FeeTierWorker {
+  private referralService: ReferralService;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(referralService?: ReferralService) {
+    this.referralService = referralService || new ReferralService();
+  }
+
+  /**
+   * Start evaluating on the configured interval
+   */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.scheduleNextRun(0);
+  }
+
+  /**
+   * Stop evaluating; an in-flight run finishes on its own
+   */
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Evaluate every active trader's tier once; null when another instance is evaluating
+   */
+  async runOnce(at: Date = new Date()): Promise<FeeTierEvaluationResult | null> {
+    const result = await this.referralService.evaluateFeeTiers(at);
+
+    if (result && (result.changes.length > 0 || result.scheduledDowngrades.length > 0)) {
+      console.log(
+        `Fee tiers re-evaluated: ${result.changes.length} of ${result.evaluated} traders changed tier, ` +
+          `${result.scheduledDowngrades.length} downgrades scheduled`
+      );
+    }
+
+    return result;
+  }
+
+  private scheduleNextRun(delayMs: number): void {
+    this.timer = setTimeout(async () => {
+      try {
+        await this.runOnce();
+      } catch (error) {
+        console.error('Fee tier evaluation failed:', error);
+      }
+
+      if (this.running) {
+        this.scheduleNextRun(feeTierConfig.evaluationIntervalMs);
+      }
+    }, delayMs);
+  }
+}
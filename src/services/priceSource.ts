@@ -0,0 +1,93 @@
+import { promises as fs } from 'fs';
+import { Decimal } from 'decimal.js';
+import { priceConfig } from '../config';
+
+/**
+ * Price Source - USD reference rates for trade valuation
+ *
+ * Implementations return the USD value of one unit of an asset at a point in time,
+ * or null when no rate is known. New oracles only need to implement PriceSource.
+ */
+export interface PriceSource {
+  getUsdRate(asset: string, at: Date): Promise<Decimal | null>;
+  hasAsset(asset: string): Promise<boolean>; // Whether the source prices the asset at all
+}
+
+/**
+ * A fixed rate, or rates effective from a given time (latest entry not after the lookup wins)
+ */
+type PriceEntry = number | { from: string; rate: number }[];
+
+/**
+ * Static price source backed by an in-memory rate table
+ */
+export class StaticPriceSource implements PriceSource {
+  constructor(private readonly rates: Record<string, PriceEntry>) {}
+
+  async getUsdRate(asset: string, at: Date): Promise<Decimal | null> {
+    return resolveRate(this.rates[asset], at);
+  }
+
+  async hasAsset(asset: string): Promise<boolean> {
+    return this.rates[asset] !== undefined;
+  }
+}
+
+/**
+ * File-backed price source for local use
+ *
+ * Reads a JSON file mapping assets to a fixed rate or a list of { from, rate } entries:
+ * { "USDC": 1, "SOL": [{ "from": "2026-01-01T00:00:00Z", "rate": 150 }] }
+ */
+export class FilePriceSource implements PriceSource {
+  private rates: Promise<Record<string, PriceEntry>> | null = null;
+
+  constructor(private readonly filePath: string) {}
+
+  async getUsdRate(asset: string, at: Date): Promise<Decimal | null> {
+    const rates = await this.loadRates();
+    return resolveRate(rates[asset], at);
+  }
+
+  async hasAsset(asset: string): Promise<boolean> {
+    const rates = await this.loadRates();
+    return rates[asset] !== undefined;
+  }
+
+  private loadRates(): Promise<Record<string, PriceEntry>> {
+    if (!this.rates) {
+      this.rates = fs.readFile(this.filePath, 'utf8').then((contents) => JSON.parse(contents));
+    }
+    return this.rates;
+  }
+}
+
+/**
+ * Pick the rate in effect at the given time
+ */
+function resolveRate(entry: PriceEntry | undefined, at: Date): Decimal | null {
+  if (entry === undefined) {
+    return null;
+  }
+
+  if (typeof entry === 'number') {
+    return new Decimal(entry);
+  }
+
+  const effective = entry
+    .filter((point) => new Date(point.from) <= at)
+    .sort((a, b) => new Date(b.from).getTime() - new Date(a.from).getTime())[0];
+
+  return effective ? new Decimal(effective.rate) : null;
+}
+
+/**
+ * Create the price source selected by configuration
+ */
+export function createPriceSource(): PriceSource {
+  if (priceConfig.source === 'file') {
+    return new FilePriceSource(priceConfig.filePath);
+  }
+
+  return new StaticPriceSource(priceConfig.staticUsdRates);
+}
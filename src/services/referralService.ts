@@ -1,6 +1,8 @@
 import { Decimal } from 'decimal.js';
 import { DatabaseService } from './database';
+import { PriceSource, createPriceSource } from './priceSource';
 import { CommissionCalculator } from '../utils/commissionCalculator';
+import { JournalBuilder } from '../utils/journalBuilder';
 import {
   ReferralCodeGenerator,
   PasswordUtils,
@@ -9,6 +11,7 @@ import {
   ValidationUtils,
   DecimalUtils,
   PaginationUtils,
+  IdempotencyUtils,
 } from '../utils/helpers';
 import {
   User,
@@ -16,8 +19,17 @@ import {
   Trade,
   Claim,
   FeeTier,
+  CommissionPlan,
+  CreateCommissionPlanRequest,
   GenerateReferralCodeRequest,
   GenerateReferralCodeResponse,
+  UpdateKickbackRateRequest,
+  AmbassadorTierEvaluationResult,
+  CommissionRecalculationRequest,
+  CommissionRecalculationResponse,
+  TradeSimulationRequest,
+  TradeSimulationResponse,
+  SimulationUserOverrides,
   RegisterWithReferralRequest,
   RegisterWithReferralResponse,
   ReferralNetworkResponse,
@@ -26,13 +38,67 @@ import {
   TradeWebhookRequest,
   TradeWebhookResponse,
   FeeCalculationResult,
+  FeeTierProgress,
+  FeeTierDecision,
+  FeeTierHistoryEntry,
+  FeeTierEvaluationResult,
+  FeeTierStatusResponse,
+  LiquidityRole,
   CommissionDistribution,
+  PlatformShare,
   CreateUserData,
   CommissionStatus,
   TradeStatus,
   ClaimStatus,
+  TradeBatchItemResult,
+  TradeReversalResponse,
+  TradeSettlementResponse,
+  TradeFailureResponse,
+  TradeInboxEntry,
+  TradeInboxStatus,
+  TradeWebhookAcceptance,
+  AccruedCommissions,
+  JournalEntryType,
+  LedgerAccount,
+  LedgerIntegrityReport,
+  CreateFeeTierRequest,
+  UpdateFeeTierRequest,
+  ReorderFeeTiersRequest,
+  FeeCampaign,
+  CreateFeeCampaignRequest,
+  UpdateFeeCampaignRequest,
 } from '../types';
-import { referralConfig, businessRules, errorMessages } from '../config';
+import {
+  advisoryLockKeys,
+  referralConfig,
+  ambassadorConfig,
+  feeTierConfig,
+  businessRules,
+  errorMessages,
+} from '../config';
+
+/**
+ * Data shared across the trades of one ingestion call
+ */
+interface TradeIngestionContext {
+  users?: Map<string, User>;
+  referralChains?: Map<string, User[]>;
+  existingTrades?: Map<string, Trade & { commissions: Commission[] }>;
+  commissionPlans?: CommissionPlan[];
+}
+
+/**
+ * A trade's amounts in USD, with its settlement token and commission plan
+ */
+interface PreparedTrade {
+  tradeVolume: Decimal;
+  tradePrice: Decimal;
+  quoteUsdRate: Decimal;
+  tradeValue: Decimal;
+  settlementToken: string;
+  conversionRate: Decimal; // Settlement token units per USD
+  commissionPlan: CommissionPlan;
+}
 
 /**
  * Referral Service - Core business logic for the referral system
@@ -45,10 +111,15 @@ import { referralConfig, businessRules, errorMessages } from '../config';
  */
 export class ReferralService {
   private db: DatabaseService;
+  private priceSource: PriceSource;
   private feeTiers: FeeTier[] = [];
+  private feeTiersLoadedAt = 0;
+  private feeCampaigns: FeeCampaign[] = [];
+  private feeCampaignsLoadedAt = 0;
 
-  constructor() {
-    this.db = new DatabaseService();
+  constructor(db?: DatabaseService) {
+    this.db = db || new DatabaseService();
+    this.priceSource = createPriceSource();
   }
 
   /**
@@ -56,14 +127,109 @@ export class ReferralService {
    */
   async initialize(): Promise<void> {
     await this.db.initialize();
+    await this.db.ensureInitialCommissionPlan(referralConfig.levelRates);
+
+    // Earnings are read from the ledger, so records from before it need opening balances
+    const openingLines = await this.db.postOpeningLedgerBalances();
+    if (openingLines > 0) {
+      console.log(`Posted ${openingLines} opening ledger balance lines`);
+    }
+
+    const backfilled = await this.backfillReferralExpiry();
+    if (backfilled > 0) {
+      console.log(`Backfilled the referral expiry of ${backfilled} referees`);
+    }
+
     await this.loadFeeTiers();
   }
 
+  /**
+   * Set the referral expiry of referees who signed up before earning windows existed
+   *
+   * The expiry runs from their signup per the direct referrer's program. Referees whose
+   * program never expires keep none, so running this again only updates new gaps.
+   */
+  private async backfillReferralExpiry(): Promise<number> {
+    let updated = 0;
+    for (const referee of await this.db.getRefereesWithoutReferralExpiry()) {
+      const referralExpiresAt = CommissionCalculator.calculateReferralExpiry(
+        referee.referrer,
+        referee.createdAt
+      );
+      if (referralExpiresAt) {
+        await this.db.updateUser(referee.id, { referralExpiresAt });
+        updated++;
+      }
+    }
+    return updated;
+  }
+
   /**
    * Load fee tiers from database
    */
   private async loadFeeTiers(): Promise<void> {
     this.feeTiers = await this.db.getFeeTiers();
+    this.feeTiersLoadedAt = Date.now();
+  }
+
+  /**
+   * Get the active fee tiers, reloading them once the cache has expired so changes
+   * made through any instance's admin API reach this one without a restart
+   */
+  private async getFeeTiers(): Promise<FeeTier[]> {
+    if (Date.now() - this.feeTiersLoadedAt >= feeTierConfig.cacheTtlMs) {
+      await this.loadFeeTiers();
+    }
+    return this.feeTiers;
+  }
+
+  /**
+   * Get the fee campaigns that have not ended, cached like the fee tiers
+   */
+  private async getFeeCampaigns(): Promise<FeeCampaign[]> {
+    if (Date.now() - this.feeCampaignsLoadedAt >= feeTierConfig.cacheTtlMs) {
+      await this.loadFeeCampaigns();
+    }
+    return this.feeCampaigns;
+  }
+
+  /**
+   * Load the fee campaigns that have not ended from database
+   */
+  private async loadFeeCampaigns(): Promise<void> {
+    this.feeCampaigns = await this.db.getCurrentFeeCampaigns(new Date());
+    this.feeCampaignsLoadedAt = Date.now();
+  }
+
+  /**
+   * Get the USD rate of an asset at a point in time from the price source
+   *
+   * An asset the source doesn't price at all is a permanent failure (UNSUPPORTED_ASSET);
+   * a missing rate for a known asset may still show up (PRICE_UNAVAILABLE).
+   */
+  private async getUsdRate(asset: string, at: Date): Promise<Decimal> {
+    const rate = await this.priceSource.getUsdRate(asset, at);
+    if (!rate) {
+      await this.assertAssetSupported(asset);
+    }
+    if (!rate || rate.lte(0)) {
+      throw ErrorUtils.createApiError('PRICE_UNAVAILABLE', `No USD price available for ${asset}`, {
+        asset,
+        at,
+      });
+    }
+    return rate;
+  }
+
+  /**
+   * Reject assets the price source doesn't cover
+   */
+  private async assertAssetSupported(asset: string): Promise<void> {
+    if (!(await this.priceSource.hasAsset(asset))) {
+      throw ErrorUtils.createApiError('UNSUPPORTED_ASSET', errorMessages.UNSUPPORTED_ASSET, {
+        asset,
+      });
+    }
   }
 
   /**
@@ -85,6 +251,7 @@ export class ReferralService {
       return {
         referralCode: user.referralCode,
         referralUrl: ReferralCodeGenerator.generateUrl(user.referralCode),
+        kickbackRate: user.kickbackRate,
       };
     }
 
@@ -104,6 +271,7 @@ export class ReferralService {
         return {
           referralCode,
           referralUrl: ReferralCodeGenerator.generateUrl(referralCode),
+          kickbackRate: user.kickbackRate,
         };
       }
 
@@ -116,6 +284,32 @@ export class ReferralService {
     );
   }
 
+  /**
+   * Set the share of their level-1 commission a referrer gives back to referees
+   *
+   * Applies to trades processed from now on.
+   */
+  async updateKickbackRate(
+    request: UpdateKickbackRateRequest
+  ): Promise<GenerateReferralCodeResponse> {
+    const { userId, kickbackRate } = request;
+
+    const user = await this.db.findUserById(userId);
+    if (!user) {
+      throw ErrorUtils.createApiError('USER_NOT_FOUND', errorMessages.USER_NOT_FOUND);
+    }
+
+    const updatedUser = await this.db.updateUser(userId, {
+      kickbackRate: new Decimal(kickbackRate),
+    });
+
+    return {
+      referralCode: updatedUser.referralCode,
+      referralUrl: ReferralCodeGenerator.generateUrl(updatedUser.referralCode),
+      kickbackRate: updatedUser.kickbackRate,
+    };
+  }
+
   /**
    * Register a new user with optional referral code
    */
@@ -195,9 +389,14 @@ export class ReferralService {
       passwordHash,
     } as any);
 
+    // Referrers earn on the new user's trades for their program's earning window
+    const referralExpiresAt = referrer
+      ? CommissionCalculator.calculateReferralExpiry(referrer, user.createdAt)
+      : null;
+
     // Generate referral code for new user
     const newReferralCode = ReferralCodeGenerator.generate();
-    await this.db.updateUser(user.id, { referralCode: newReferralCode });
+    await this.db.updateUser(user.id, { referralCode: newReferralCode, referralExpiresAt });
 
     // Generate JWT token
     const token = TokenUtils.generate({
@@ -213,13 +412,14 @@ export class ReferralService {
         referralCode: newReferralCode,
         referrerId: user.referrerId,
         feeDiscountRate: DecimalUtils.toNumber(feeDiscountRate),
+        referralExpiresAt,
       },
       token,
     };
   }
 
   /**
-   * Get user's referral network (3 levels deep)
+   * Get user's referral network (down to the configured referral depth)
    */
   async getReferralNetwork(
     userId: string,
@@ -233,8 +433,14 @@ export class ReferralService {
 
     const pagination = PaginationUtils.calculatePagination(page, limit);
 
-    // Build the network tree recursively
-    const networkNode = await this.buildNetworkNode(user, 1, 3, pagination);
+    // Build the network tree recursively; the user is level 1, so every
+    // commission-earning level of referrals sits below it
+    const networkNode = await this.buildNetworkNode(
+      user,
+      1,
+      businessRules.maxReferralDepth + 1,
+      pagination
+    );
 
     return networkNode;
   }
@@ -248,8 +454,8 @@ export class ReferralService {
     maxLevel: number,
     pagination: { page: number; limit: number; offset: number }
   ): Promise<ReferralNetworkResponse> {
-    // Get user's commission stats
-    const commissionStats = await this.db.getCommissionStats(user.id);
+    // Get user's earnings from the ledger
+    const earnings = await this.getLedgerEarnings(user.id);
 
     const node: ReferralNetworkResponse = {
       user: {
@@ -258,8 +464,9 @@ export class ReferralService {
         username: user.username,
         level: currentLevel,
         joinedAt: user.createdAt,
+        referralExpiresAt: user.referralExpiresAt ?? null,
         totalVolume: user.totalTradeVolume,
-        totalCommissions: commissionStats.totalEarned,
+        totalCommissions: earnings.total,
       },
       children: [],
     };
@@ -308,8 +515,10 @@ export class ReferralService {
     // Get commissions with pagination
     const { commissions, total } = await this.db.getUserCommissions(userId, filters, pagination);
 
-    // Calculate earnings stats
+    // Balances come from the ledger; the split by level and capped amounts from the commissions
+    const earnings = await this.getLedgerEarnings(userId);
     const commissionStats = await this.db.getCommissionStats(userId);
+    const kickbacksGiven = await this.db.getKickbacksGiven(userId);
 
     // Group earnings by user
     const earningsByUserMap = new Map<
@@ -326,6 +535,14 @@ export class ReferralService {
     >();
 
     for (const commission of commissions) {
+      // Commissions of reversed or unsettled trades don't count towards earnings
+      if (
+        commission.status === CommissionStatus.VOIDED ||
+        commission.status === CommissionStatus.PENDING
+      ) {
+        continue;
+      }
+
       const sourceUserId = commission.sourceUserId;
 
       if (!earningsByUserMap.has(sourceUserId)) {
@@ -352,15 +569,21 @@ export class ReferralService {
 
     return {
       totalEarnings: {
-        unclaimed: commissionStats.totalUnclaimed,
-        claimed: commissionStats.totalClaimed,
-        total: commissionStats.totalEarned,
-      },
-      earningsByLevel: {
-        level1: commissionStats.earningsByLevel[1] || new Decimal(0),
-        level2: commissionStats.earningsByLevel[2] || new Decimal(0),
-        level3: commissionStats.earningsByLevel[3] || new Decimal(0),
+        unclaimed: earnings.unclaimed,
+        claimed: earnings.claimed,
+        pending: earnings.pending,
+        capped: commissionStats.totalCapped,
+        dust: earnings.dust,
+        kickbacksReceived: commissionStats.earningsByLevel[0] || new Decimal(0),
+        kickbacksGiven,
+        total: earnings.total,
       },
+      earningsByLevel: Object.fromEntries(
+        Array.from({ length: businessRules.maxReferralDepth }, (_, index) => [
+          `level${index + 1}`,
+          commissionStats.earningsByLevel[index + 1] || new Decimal(0),
+        ])
+      ),
       earningsByUser: Array.from(earningsByUserMap.values()),
       pagination: {
         page: paginationMeta.page,
@@ -371,29 +594,470 @@ export class ReferralService {
     };
   }
 
+  /**
+   * Read a user's commission balances (USD) from their ledger accounts
+   */
+  private async getLedgerEarnings(userId: string): Promise<{
+    unclaimed: Decimal;
+    claimed: Decimal;
+    pending: Decimal;
+    dust: Decimal;
+    total: Decimal;
+  }> {
+    const balances = await this.db.getLedgerBalances(userId);
+    // Commission accounts carry credit balances
+    const credit = (account: LedgerAccount) => (balances[account] || new Decimal(0)).neg();
+
+    const unclaimed = credit(LedgerAccount.COMMISSIONS_PAYABLE);
+    const claimed = credit(LedgerAccount.PAYOUT_CLEARING);
+
+    return {
+      unclaimed,
+      claimed,
+      pending: credit(LedgerAccount.COMMISSIONS_PENDING),
+      dust: credit(LedgerAccount.COMMISSION_DUST),
+      total: unclaimed.add(claimed),
+    };
+  }
+
+  /**
+   * Accept a trade webhook into the inbox for asynchronous processing
+   *
+   * Replayed deliveries of a processed trade get the original result, and those of a
+   * trade still in the inbox get its existing ingestion ID. Either way, a different
+   * trade under the same idempotency key is rejected.
+   */
+  async enqueueTradeWebhook(request: TradeWebhookRequest): Promise<TradeWebhookAcceptance> {
+    // Trades that can never be valued are rejected before they reach the inbox
+    await this.assertAssetSupported(request.quoteAsset);
+
+    const idempotencyKey = IdempotencyUtils.buildTradeKey(request);
+    if (idempotencyKey) {
+      const existingTrade = await this.db.findTradeByIdempotencyKey(idempotencyKey);
+      if (existingTrade) {
+        return { queued: false, response: this.buildReplayResponse(existingTrade, request) };
+      }
+    }
+
+    // A redelivery gets the entry already in the inbox, which must carry the same trade
+    const entry = await this.db.createTradeInboxEntry(request, idempotencyKey);
+    if (!this.isSameTrade(entry.payload, request)) {
+      throw ErrorUtils.createApiError(
+        'TRADE_ALREADY_PROCESSED',
+        errorMessages.TRADE_ALREADY_PROCESSED,
+        { ingestionId: entry.id }
+      );
+    }
+
+    return {
+      queued: true,
+      response: {
+        ingestionId: entry.id,
+        status: entry.status,
+      },
+    };
+  }
+
+  /**
+   * List trade inbox entries (admin endpoint)
+   */
+  async getTradeInboxEntries(
+    status?: TradeInboxStatus,
+    page: number = 1,
+    limit: number = 20
+  ): Promise<{
+    entries: TradeInboxEntry[];
+    pagination: { page: number; limit: number; total: number; totalPages: number };
+  }> {
+    const pagination = PaginationUtils.calculatePagination(page, limit);
+    const { entries, total } = await this.db.getTradeInboxEntries(status, pagination);
+    const paginationMeta = PaginationUtils.calculateMeta(pagination.page, pagination.limit, total);
+
+    return {
+      entries,
+      pagination: {
+        page: paginationMeta.page,
+        limit: paginationMeta.limit,
+        total: paginationMeta.totalItems,
+        totalPages: paginationMeta.totalPages,
+      },
+    };
+  }
+
+  /**
+   * Get a single trade inbox entry (admin endpoint)
+   */
+  async getTradeInboxEntry(ingestionId: string): Promise<TradeInboxEntry> {
+    const entry = await this.db.findTradeInboxEntryById(ingestionId);
+    if (!entry) {
+      throw ErrorUtils.createApiError('INGESTION_NOT_FOUND', errorMessages.INGESTION_NOT_FOUND);
+    }
+    return entry;
+  }
+
+  /**
+   * Requeue a dead-lettered trade inbox entry (admin endpoint)
+   */
+  async replayTradeInboxEntry(ingestionId: string): Promise<TradeInboxEntry> {
+    const entry = await this.getTradeInboxEntry(ingestionId);
+
+    const requeued = await this.db.requeueTradeInboxEntry(entry.id);
+    if (!requeued) {
+      throw ErrorUtils.createApiError(
+        'INGESTION_NOT_REPLAYABLE',
+        errorMessages.INGESTION_NOT_REPLAYABLE,
+        { ingestionId, status: entry.status }
+      );
+    }
+
+    return requeued;
+  }
+
   /**
    * Process a trade and distribute commissions
    */
   async processTradeWebhook(request: TradeWebhookRequest): Promise<TradeWebhookResponse> {
+    return this.ingestTrade(request, {});
+  }
+
+  /**
+   * Process a batch of trades, each in its own transaction
+   *
+   * Users, referral chains and prior deliveries are loaded once for the whole batch.
+   * A failing item is reported in its own result and does not affect the others.
+   */
+  async processTradeBatch(requests: TradeWebhookRequest[]): Promise<TradeBatchItemResult[]> {
+    const userIds = Array.from(new Set(requests.map((request) => request.userId)));
+    const idempotencyKeys = requests
+      .map((request) => IdempotencyUtils.buildTradeKey(request))
+      .filter((key): key is string => key !== null);
+
+    const [users, existingTrades, commissionPlans] = await Promise.all([
+      this.db.findUsersByIds(userIds),
+      this.db.findTradesByIdempotencyKeys(idempotencyKeys),
+      this.db.getCommissionPlans(),
+    ]);
+
+    const context: TradeIngestionContext = {
+      users: new Map(users.map((user) => [user.id, user])),
+      referralChains: new Map(),
+      existingTrades: new Map(existingTrades.map((trade) => [trade.idempotencyKey!, trade])),
+      commissionPlans,
+    };
+
+    // Sequential on purpose: later trades from the same user must see updated volume
+    const results: TradeBatchItemResult[] = [];
+    for (const [index, request] of requests.entries()) {
+      try {
+        const data = await this.ingestTrade(request, context);
+        results.push({ index, success: true, data });
+      } catch (error: any) {
+        results.push({ index, success: false, error: this.toBatchItemError(error) });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Convert an error thrown while processing a batch item into a result entry
+   */
+  private toBatchItemError(error: any): { code: string; message: string; details?: any } {
+    // Prisma errors carry codes like P2002; don't leak their messages
+    if (typeof error?.code === 'string' && /^P\d{4}$/.test(error.code)) {
+      return { code: 'DATABASE_ERROR', message: errorMessages.DATABASE_ERROR };
+    }
+
+    if (ErrorUtils.isApiError(error)) {
+      return {
+        code: error.code,
+        message: error.message,
+        ...(error.details && { details: error.details }),
+      };
+    }
+
+    console.error('Batch trade processing error:', error);
+    return { code: 'INTERNAL_SERVER_ERROR', message: errorMessages.INTERNAL_SERVER_ERROR };
+  }
+
+  /**
+   * Ingest a single trade: fee calculation, trade record, commissions and user totals
+   *
+   * The context lets batch callers share preloaded data across trades.
+   */
+  private async ingestTrade(
+    request: TradeWebhookRequest,
+    context: TradeIngestionContext
+  ): Promise<TradeWebhookResponse> {
     const {
       userId,
       tradeType,
       baseAsset,
       quoteAsset,
       side,
-      volume,
-      price,
       chain,
       network,
       transactionHash,
+      externalTradeId,
+      liquidityRole = 'TAKER',
     } = request;
 
+    // Pending trades get non-claimable commissions and don't count towards volume until settled
+    const isPending = request.status === TradeStatus.PENDING;
+
+    // Replayed deliveries return the result of the original processing
+    const idempotencyKey = IdempotencyUtils.buildTradeKey(request);
+    if (idempotencyKey) {
+      const existingTrade = context.existingTrades
+        ? context.existingTrades.get(idempotencyKey)
+        : await this.db.findTradeByIdempotencyKey(idempotencyKey);
+      if (existingTrade) {
+        return this.buildReplayResponse(existingTrade, request);
+      }
+    }
+
     // Validate user
-    const user = await this.db.findUserById(userId);
+    const user = context.users ? context.users.get(userId) : await this.db.findUserById(userId);
     if (!user) {
       throw ErrorUtils.createApiError('USER_NOT_FOUND', errorMessages.USER_NOT_FOUND);
     }
 
+    const createdAt = new Date();
+    const {
+      tradeVolume,
+      tradePrice,
+      quoteUsdRate,
+      tradeValue,
+      settlementToken,
+      conversionRate,
+      commissionPlan,
+    } = await this.prepareTrade(request, createdAt, context.commissionPlans);
+    const rollingVolume = await this.db.getRollingVolume(
+      userId,
+      CommissionCalculator.getVolumeWindowStart(createdAt)
+    );
+    const [feeTiers, campaigns] = await Promise.all([this.getFeeTiers(), this.getFeeCampaigns()]);
+
+    // Upgrades apply from the first trade that qualifies; downgrades wait for the
+    // scheduled evaluation and its grace period
+    const qualifiesForUpgrade =
+      CommissionCalculator.evaluateFeeTier(user, rollingVolume, feeTiers, createdAt).action ===
+      'UPGRADE';
+
+    try {
+      return await this.db.executeTransaction(async (tx) => {
+        // Get referral chain
+        let referralChain = context.referralChains?.get(userId);
+        if (!referralChain) {
+          referralChain = await this.db.getReferralChain(userId);
+          context.referralChains?.set(userId, referralChain);
+        }
+
+        let trader = user;
+        if (qualifiesForUpgrade) {
+          const { newTier } = await this.applyFeeTierDecision(
+            tx,
+            userId,
+            rollingVolume,
+            feeTiers,
+            createdAt,
+            'TRADE',
+            true
+          );
+          trader = { ...user, feeTier: newTier };
+        }
+
+        // Calculate effective fee rate, including the direct referrer's kickback
+        const feeCalculation = CommissionCalculator.calculateEffectiveFeeRate(
+          trader,
+          tradeValue,
+          feeTiers,
+          {
+            tradeType,
+            liquidityRole,
+            at: createdAt,
+            referrer: referralChain[0],
+            levelRates: commissionPlan.levelRates,
+            rollingVolume,
+            campaigns,
+            baseAsset,
+            quoteAsset,
+            chain,
+            network,
+          }
+        );
+
+        // Create trade record (tx-aware)
+        const trade = await (tx as any).trade.create({
+          data: {
+            userId,
+            tradeType,
+            baseAsset,
+            quoteAsset,
+            side,
+            volume: tradeVolume,
+            price: tradePrice,
+            liquidityRole,
+            quoteUsdRate,
+            usdValue: tradeValue,
+            feeRate: feeCalculation.appliedFeeRate,
+            feeAmount: feeCalculation.feeAmount,
+            netFeeAmount: feeCalculation.netFeeAmount,
+            rebateAmount: feeCalculation.rebateAmount,
+            kickbackAmount: feeCalculation.kickbackAmount || 0,
+            campaignId: feeCalculation.campaignId,
+            chain,
+            network,
+            transactionHash,
+            externalTradeId,
+            idempotencyKey,
+            status: isPending ? TradeStatus.PENDING : TradeStatus.COMPLETED,
+            settledAt: isPending ? null : createdAt,
+            createdAt,
+          },
+        });
+
+        // Caps are checked against what the earners have already accrued
+        const caps = CommissionCalculator.resolveCommissionCaps(commissionPlan);
+        const capping = CommissionCalculator.hasCommissionCaps(caps)
+          ? {
+              caps,
+              accrued: await this.loadAccruedCommissions(tx, referralChain, userId, createdAt),
+            }
+          : undefined;
+
+        // Sub-minimum commissions accrue as dust; skipped shares go to the platform
+        const dust = await this.loadCommissionDust(tx, referralChain);
+        const dustBefore = new Map(dust);
+        const platformShares: PlatformShare[] = [];
+
+        // Calculate commission distribution
+        const commissionDistributions = await CommissionCalculator.calculateCommissionDistribution(
+          trade,
+          user,
+          referralChain,
+          feeCalculation,
+          { plan: commissionPlan, capping, dust, platformShares }
+        );
+
+        const dustChanges = new Map<string, Decimal>();
+        for (const [earnerId, amount] of dust) {
+          if (!amount.eq(dustBefore.get(earnerId)!)) {
+            await (tx as any).commissionDust.update({ where: { earnerId }, data: { amount } });
+            dustChanges.set(earnerId, amount.sub(dustBefore.get(earnerId)!));
+          }
+        }
+        await this.recordDustAccruals(tx, trade.id, dustChanges, commissionDistributions);
+
+        // Create commission records, converted into the settlement token
+        const commissionsData = commissionDistributions.map((distribution) => {
+          const sourceAmount = distribution.amount;
+          distribution.amount = DecimalUtils.round(
+            sourceAmount.mul(conversionRate),
+            businessRules.commissionCalculationRounding
+          );
+          distribution.cappedAmount =
+            distribution.cappedAmount &&
+            DecimalUtils.round(
+              distribution.cappedAmount.mul(conversionRate),
+              businessRules.commissionCalculationRounding
+            );
+          distribution.dustAmount =
+            distribution.dustAmount &&
+            DecimalUtils.round(
+              distribution.dustAmount.mul(conversionRate),
+              businessRules.commissionCalculationRounding
+            );
+          distribution.tokenType = settlementToken;
+
+          return {
+            amount: distribution.amount,
+            tokenType: settlementToken,
+            sourceToken: 'USD',
+            sourceAmount,
+            conversionRate,
+            commissionLevel: distribution.level,
+            rate: distribution.rate,
+            planVersion: distribution.planVersion,
+            cappedAmount: distribution.cappedAmount,
+            capReason: distribution.capReason,
+            dustAmount: distribution.dustAmount,
+            ambassadorTier: distribution.ambassadorTier,
+            earnerId: distribution.earnerId,
+            sourceUserId: userId,
+            tradeId: trade.id,
+            originalFeeAmount: feeCalculation.feeAmount,
+            status: isPending ? CommissionStatus.PENDING : CommissionStatus.UNCLAIMED,
+          };
+        });
+
+        let createdCommissions: Commission[] = [];
+        if (commissionsData.length > 0) {
+          // Create commission records in same transaction
+          const created = await Promise.all(
+            commissionsData.map((data) => (tx as any).commission.create({ data }))
+          );
+          createdCommissions = created as any;
+
+          // Update commission IDs in distributions
+          commissionDistributions.forEach((distribution, index) => {
+            distribution.commissionId = createdCommissions[index].id;
+          });
+        }
+
+        // Book the fee and where it went; skipped shares go to platform revenue
+        await this.db.postJournalEntry(
+          JournalBuilder.buildTradeEntry(trade, createdCommissions, dustChanges, platformShares),
+          tx
+        );
+
+        // Update user's trade volume
+        if (!isPending) {
+          await this.recordDailyVolume(tx, userId, createdAt, tradeValue);
+        }
+        const updatedUser = await (tx as any).user.update({
+          where: { id: userId },
+          data: {
+            ...(!isPending && {
+              totalTradeVolume: { increment: tradeValue },
+              totalFeesPaid: { increment: feeCalculation.netFeeAmount },
+            }),
+            lastActiveAt: new Date(),
+          },
+        });
+
+        // Keep preloaded batch users in step for their next trade
+        context.users?.set(userId, updatedUser);
+
+        return {
+          tradeId: trade.id,
+          status: 'SUCCESS',
+          tradeStatus: trade.status,
+          commissionsDistributed: commissionDistributions,
+        };
+      });
+    } catch (error: any) {
+      // A concurrent delivery of the same trade won the race on the unique key
+      if (idempotencyKey && error.code === 'P2002') {
+        const existingTrade = await this.db.findTradeByIdempotencyKey(idempotencyKey);
+        if (existingTrade) {
+          return this.buildReplayResponse(existingTrade, request);
+        }
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Value a trade in USD and resolve its settlement token and commission plan
+   */
+  private async prepareTrade(
+    request: TradeWebhookRequest,
+    createdAt: Date,
+    commissionPlans?: CommissionPlan[]
+  ): Promise<PreparedTrade> {
+    const { volume, price, quoteAsset, network } = request;
+
     // Validate and convert trade volume
     const tradeVolume = DecimalUtils.fromString(volume, 'volume');
     const tradePrice = DecimalUtils.fromString(price, 'price');
@@ -405,153 +1069,829 @@ export class ReferralService {
       );
     }
 
-    // Calculate trade value
-    const tradeValue = tradeVolume.mul(tradePrice);
-
-    return this.db.executeTransaction(async (tx) => {
-      // Calculate effective fee rate
-      const feeCalculation = CommissionCalculator.calculateEffectiveFeeRate(
-        user,
-        tradeValue,
-        this.feeTiers
-      );
-
-      // Create trade record (tx-aware)
-      const trade = await (tx as any).trade.create({
-        data: {
-          userId,
-          tradeType,
-          baseAsset,
-          quoteAsset,
-          side,
-          volume: tradeVolume,
-          price: tradePrice,
-          feeRate: feeCalculation.appliedFeeRate,
-          feeAmount: feeCalculation.feeAmount,
-          netFeeAmount: feeCalculation.netFeeAmount,
-          rebateAmount: feeCalculation.rebateAmount,
-          chain,
-          network,
-          transactionHash,
-          status: TradeStatus.COMPLETED,
-          settledAt: new Date(),
-        },
-      });
-
-      // Get referral chain
-      const referralChain = await this.db.getReferralChain(userId);
-
-      // Calculate commission distribution
-      const commissionDistributions = await CommissionCalculator.calculateCommissionDistribution(
-        trade,
-        user,
-        referralChain,
-        feeCalculation
+    // Normalize the trade value to USD using the quote asset's rate at creation time
+    const quoteUsdRate = await this.getUsdRate(quoteAsset, createdAt);
+    const tradeValue = DecimalUtils.round(tradeVolume.mul(tradePrice).mul(quoteUsdRate));
+
+    // Token commissions are paid in, per the configured settlement policy
+    const settlementToken = CommissionCalculator.selectSettlementToken(quoteAsset, network);
+    const settlementUsdRate =
+      settlementToken === quoteAsset
+        ? quoteUsdRate
+        : await this.getUsdRate(settlementToken, createdAt);
+    const conversionRate = new Decimal(1).div(settlementUsdRate);
+
+    // Commission rates come from the plan in effect when the trade was created
+    const commissionPlan = CommissionCalculator.selectCommissionPlan(
+      commissionPlans ?? (await this.db.getCommissionPlans()),
+      createdAt
+    );
+    if (!commissionPlan) {
+      throw ErrorUtils.createApiError(
+        'COMMISSION_PLAN_UNAVAILABLE',
+        errorMessages.COMMISSION_PLAN_UNAVAILABLE,
+        { at: createdAt }
       );
+    }
 
-      // Create commission records
-      const commissionsData = commissionDistributions.map((distribution) => ({
-        amount: distribution.amount,
-        tokenType: 'USDC', // Default token
-        commissionLevel: distribution.level,
-        rate: distribution.rate,
-        earnerId: distribution.earnerId,
-        sourceUserId: userId,
-        tradeId: trade.id,
-        originalFeeAmount: feeCalculation.feeAmount,
-        status: CommissionStatus.UNCLAIMED,
-      }));
-
-      let createdCommissions: Commission[] = [];
-      if (commissionsData.length > 0) {
-        // Create commission records in same transaction
-        const created = await Promise.all(
-          commissionsData.map((data) => (tx as any).commission.create({ data }))
-        );
-        createdCommissions = created as any;
-
-        // Update commission IDs in distributions
-        commissionDistributions.forEach((distribution, index) => {
-          distribution.commissionId = createdCommissions[index].id;
-        });
-      }
-
-      // Update user's trade volume
-      const updatedVolume = user.totalTradeVolume.add(tradeValue);
-      const updatedFees = user.totalFeesPaid.add(feeCalculation.netFeeAmount);
-
-      await (tx as any).user.update({
-        where: { id: userId },
-        data: {
-          totalTradeVolume: updatedVolume,
-          totalFeesPaid: updatedFees,
-          lastActiveAt: new Date(),
-        },
-      });
-
-      return {
-        tradeId: trade.id,
-        status: 'SUCCESS',
-        commissionsDistributed: commissionDistributions,
-      };
-    });
+    return {
+      tradeVolume,
+      tradePrice,
+      quoteUsdRate,
+      tradeValue,
+      settlementToken,
+      conversionRate,
+      commissionPlan,
+    };
   }
 
   /**
-   * Validate claim request (UI endpoint - no actual processing)
+   * Simulate the fees and commissions of a trade without persisting anything
+   *
+   * Runs against the trader's real referral chain, with optional hypothetical
+   * overrides for the trader and individual referrers. Caps and dust are applied
+   * from the earners' current balances.
    */
-  async validateClaimRequest(
-    userId: string,
-    tokenType: string = 'USDC'
-  ): Promise<{
-    isValid: boolean;
-    claimableAmount: Decimal;
-    errors: string[];
-  }> {
+  async simulateTrade(request: TradeSimulationRequest): Promise<TradeSimulationResponse> {
+    const { userId, tradeType, liquidityRole = 'TAKER', overrides = {} } = request;
+
     const user = await this.db.findUserById(userId);
     if (!user) {
-      return {
-        isValid: false,
-        claimableAmount: new Decimal(0),
-        errors: [errorMessages.USER_NOT_FOUND],
-      };
+      throw ErrorUtils.createApiError('USER_NOT_FOUND', errorMessages.USER_NOT_FOUND);
     }
 
-    // Get unclaimed commissions
-    const { commissions } = await this.db.getUserCommissions(
-      userId,
-      { status: CommissionStatus.UNCLAIMED, tokenType },
-      { page: 1, limit: 1000, offset: 0 }
+    const simulatedAt = new Date();
+    const prepared = await this.prepareTrade(request, simulatedAt);
+    const { tradeValue, commissionPlan, settlementToken, conversionRate } = prepared;
+
+    const trader = this.applySimulationOverrides(user, overrides.trader);
+    const referralChain = (await this.db.getReferralChain(userId)).map((referrer) =>
+      this.applySimulationOverrides(referrer, overrides.referrers?.[referrer.id])
     );
 
-    const claimableAmount = commissions.reduce(
-      (sum, commission) => sum.add(commission.amount),
-      new Decimal(0)
+    const volumeOverride = overrides.trader?.totalTradeVolume;
+    const rollingVolume =
+      volumeOverride !== undefined
+        ? new Decimal(volumeOverride)
+        : await this.db.getRollingVolume(
+            userId,
+            CommissionCalculator.getVolumeWindowStart(simulatedAt)
+          );
+    const [feeTiers, campaigns] = await Promise.all([this.getFeeTiers(), this.getFeeCampaigns()]);
+
+    // As with real trades, a qualifying upgrade applies to the trade; a volume
+    // override selects the tier outright
+    const feeTierDecision = CommissionCalculator.evaluateFeeTier(
+      trader,
+      rollingVolume,
+      feeTiers,
+      simulatedAt
+    );
+    const feeCalculation = CommissionCalculator.calculateEffectiveFeeRate(
+      volumeOverride !== undefined || feeTierDecision.action === 'UPGRADE'
+        ? { ...trader, feeTier: feeTierDecision.qualifiedTier }
+        : trader,
+      tradeValue,
+      feeTiers,
+      {
+        tradeType,
+        liquidityRole,
+        at: simulatedAt,
+        referrer: referralChain[0],
+        levelRates: commissionPlan.levelRates,
+        rollingVolume,
+        campaigns,
+        baseAsset: request.baseAsset,
+        quoteAsset: request.quoteAsset,
+        chain: request.chain,
+        network: request.network,
+      }
     );
 
-    const errors: string[] = [];
+    const trade: Trade = {
+      id: 'simulation',
+      userId,
+      tradeType: tradeType || 'SPOT',
+      baseAsset: request.baseAsset,
+      quoteAsset: request.quoteAsset,
+      side: request.side,
+      volume: prepared.tradeVolume,
+      price: prepared.tradePrice,
+      liquidityRole,
+      quoteUsdRate: prepared.quoteUsdRate,
+      usdValue: tradeValue,
+      feeRate: feeCalculation.appliedFeeRate,
+      feeAmount: feeCalculation.feeAmount,
+      netFeeAmount: feeCalculation.netFeeAmount,
+      rebateAmount: feeCalculation.rebateAmount,
+      kickbackAmount: feeCalculation.kickbackAmount || new Decimal(0),
+      campaignId: feeCalculation.campaignId,
+      chain: request.chain,
+      network: request.network,
+      status: TradeStatus.COMPLETED,
+      createdAt: simulatedAt,
+      updatedAt: simulatedAt,
+    };
 
-    if (claimableAmount.lt(businessRules.minimumClaimAmount)) {
-      errors.push(`Minimum claim amount is ${businessRules.minimumClaimAmount} ${tokenType}`);
+    // Read current cap usage and dust balances without taking any locks
+    const caps = CommissionCalculator.resolveCommissionCaps(commissionPlan);
+    const capping = CommissionCalculator.hasCommissionCaps(caps)
+      ? {
+          caps,
+          accrued: await this.db.executeTransaction((tx) =>
+            this.loadAccruedCommissions(tx, referralChain, userId, simulatedAt, false)
+          ),
+        }
+      : undefined;
+
+    const dust = new Map<string, Decimal>();
+    for (const referrer of referralChain.filter((referrer) => !referrer.isTeamMember)) {
+      dust.set(referrer.id, await this.db.getCommissionDust(referrer.id));
     }
 
+    const platformShares: PlatformShare[] = [];
+    const distributions = await CommissionCalculator.calculateCommissionDistribution(
+      trade,
+      trader,
+      referralChain,
+      feeCalculation,
+      { plan: commissionPlan, capping, dust, platformShares }
+    );
+
     return {
-      isValid: errors.length === 0,
-      claimableAmount,
-      errors,
+      simulatedAt,
+      trade: {
+        userId,
+        tradeType: trade.tradeType,
+        usdValue: tradeValue,
+        quoteUsdRate: prepared.quoteUsdRate,
+        planVersion: commissionPlan.version,
+        settlementToken,
+        conversionRate,
+      },
+      feeCalculation,
+      commissionsDistributed: distributions.map(
+        ({ commissionId: _commissionId, ...distribution }) => ({
+          ...distribution,
+          settlementAmount: DecimalUtils.round(
+            distribution.amount.mul(conversionRate),
+            businessRules.commissionCalculationRounding
+          ),
+          tokenType: settlementToken,
+        })
+      ),
+      platformShares,
     };
   }
 
   /**
-   * Get platform statistics (admin endpoint)
+   * Apply hypothetical simulation overrides to a copy of a user
    */
-  async getPlatformStatistics(): Promise<{
-    totalUsers: number;
-    totalTrades: number;
-    totalVolume: Decimal;
-    totalCommissions: Decimal;
-    activeReferrers: number;
-    topReferrers: Array<{
+  private applySimulationOverrides(user: User, overrides?: SimulationUserOverrides): User {
+    if (!overrides) {
+      return user;
+    }
+
+    const { kickbackRate, totalTradeVolume, customFeeRate, feeDiscountRate, ...rest } = overrides;
+
+    return {
+      ...user,
+      ...rest,
+      ...(kickbackRate !== undefined && { kickbackRate: new Decimal(kickbackRate) }),
+      ...(totalTradeVolume !== undefined && { totalTradeVolume: new Decimal(totalTradeVolume) }),
+      ...(customFeeRate !== undefined && { customFeeRate: new Decimal(customFeeRate) }),
+      ...(feeDiscountRate !== undefined && { feeDiscountRate: new Decimal(feeDiscountRate) }),
+    };
+  }
+
+  /**
+   * Add trade volume to the trader's daily rollup; a negative volume takes it back out
+   */
+  private async recordDailyVolume(
+    tx: any,
+    userId: string,
+    tradedAt: Date,
+    volume: Decimal
+  ): Promise<void> {
+    const day = CommissionCalculator.getVolumeDay(tradedAt);
+    await tx.dailyVolume.upsert({
+      where: { userId_day: { userId, day } },
+      create: { userId, day, volume },
+      update: { volume: { increment: volume } },
+    });
+  }
+
+  /**
+   * Decide on a trader's fee tier and apply it, recording tier changes in their history
+   *
+   * The decision is made on the trader's locked row, so a concurrent trade or
+   * evaluation can't have changed the tier in between. With upgradesOnly, any other
+   * decision is left to the scheduled evaluation.
+   */
+  private async applyFeeTierDecision(
+    tx: any,
+    userId: string,
+    rollingVolume: Decimal,
+    feeTiers: FeeTier[],
+    at: Date,
+    reason: FeeTierHistoryEntry['reason'],
+    upgradesOnly: boolean = false
+  ): Promise<{ oldTier: string; newTier: string; decision: FeeTierDecision }> {
+    await tx.$queryRaw`SELECT id FROM "users" WHERE id = ${userId} FOR UPDATE`;
+    const user = await tx.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: { feeTier: true, feeTierDowngradeAt: true },
+    });
+
+    const decision = CommissionCalculator.evaluateFeeTier(user, rollingVolume, feeTiers, at);
+    if (decision.action === 'NONE' || (upgradesOnly && decision.action !== 'UPGRADE')) {
+      return { oldTier: user.feeTier, newTier: user.feeTier, decision };
+    }
+
+    if (decision.action === 'UPGRADE' || decision.action === 'DOWNGRADE') {
+      await tx.user.update({
+        where: { id: userId },
+        data: { feeTier: decision.qualifiedTier, feeTierDowngradeAt: null },
+      });
+      await tx.feeTierHistory.create({
+        data: {
+          userId,
+          oldTier: user.feeTier,
+          newTier: decision.qualifiedTier,
+          direction: decision.action,
+          reason,
+          rollingVolume,
+        },
+      });
+      return { oldTier: user.feeTier, newTier: decision.qualifiedTier, decision };
+    }
+
+    await tx.user.update({
+      where: { id: userId },
+      data: { feeTierDowngradeAt: decision.downgradeAt },
+    });
+    return { oldTier: user.feeTier, newTier: user.feeTier, decision };
+  }
+
+  /**
+   * Lock and load the dust balances (USD) of the earners of a trade
+   *
+   * Balances are created on first use; the upsert locks each row until the
+   * transaction ends, so concurrent trades can't pay out the same dust twice.
+   */
+  private async loadCommissionDust(tx: any, referralChain: User[]): Promise<Map<string, Decimal>> {
+    const earnerIds = referralChain
+      .filter((referrer) => !referrer.isTeamMember)
+      .map((referrer) => referrer.id)
+      .sort();
+
+    const dust = new Map<string, Decimal>();
+    for (const earnerId of earnerIds) {
+      const balance = await tx.commissionDust.upsert({
+        where: { earnerId },
+        create: { earnerId },
+        update: { amount: { increment: 0 } },
+      });
+      dust.set(earnerId, new Decimal(balance.amount.toString()));
+    }
+
+    return dust;
+  }
+
+  /**
+   * Record what a trade added to each earner's dust balance, so voiding it can take
+   * the dust back; that is the balance change plus any dust paid out with a commission
+   */
+  private async recordDustAccruals(
+    tx: any,
+    tradeId: string,
+    dustChanges: Map<string, Decimal>,
+    distributions: CommissionDistribution[]
+  ): Promise<void> {
+    const data = Array.from(dustChanges, ([earnerId, change]) => {
+      const paidOut = distributions.find(
+        (distribution) => distribution.earnerId === earnerId && distribution.level > 0
+      )?.dustAmount;
+      return { tradeId, earnerId, amount: change.add(paidOut ?? 0) };
+    }).filter(({ amount }) => !amount.isZero());
+
+    if (data.length > 0) {
+      await tx.commissionDustAccrual.createMany({ data });
+    }
+  }
+
+  /**
+   * Take the dust a voided trade accrued back out of the earners' dust balances
+   *
+   * Dust that was paid out since leaves the balance negative, and is taken back from
+   * the earner's next commission. Returns the accruals by earner, in USD.
+   */
+  private async takeBackDustAccruals(tx: any, tradeId: string): Promise<Map<string, Decimal>> {
+    const accruals = await tx.commissionDustAccrual.findMany({ where: { tradeId } });
+
+    const taken = new Map<string, Decimal>();
+    for (const accrual of accruals) {
+      const amount = new Decimal(accrual.amount.toString());
+      await tx.commissionDust.update({
+        where: { earnerId: accrual.earnerId },
+        data: { amount: { decrement: amount } },
+      });
+      taken.set(accrual.earnerId, amount);
+    }
+
+    return taken;
+  }
+
+  /**
+   * Return the dust paid out with voided commissions to the earners' dust balances
+   */
+  private async restoreCommissionDust(tx: any, commissions: Commission[]): Promise<void> {
+    for (const commission of commissions) {
+      if (!commission.dustAmount || new Decimal(commission.dustAmount.toString()).isZero()) {
+        continue;
+      }
+
+      const amount = new Decimal(commission.dustAmount.toString()).div(
+        commission.conversionRate.toString()
+      );
+      await tx.commissionDust.update({
+        where: { earnerId: commission.earnerId },
+        data: { amount: { increment: amount } },
+      });
+    }
+  }
+
+  /**
+   * Lock the earners of a trade and sum the commissions they accrued in its cap periods
+   *
+   * The row locks serialize concurrent trades paying the same earner, so caps hold
+   * across them. Amounts are in USD (sourceAmount); voided commissions don't count.
+   */
+  private async loadAccruedCommissions(
+    tx: any,
+    earners: User[],
+    sourceUserId: string,
+    at: Date,
+    lock: boolean = true
+  ): Promise<Map<string, AccruedCommissions>> {
+    // Lock in a stable order so trades sharing earners can't deadlock
+    const earnerIds = earners.map((earner) => earner.id).sort();
+    for (const earnerId of lock ? earnerIds : []) {
+      await tx.$queryRaw`SELECT id FROM "users" WHERE id = ${earnerId} FOR UPDATE`;
+    }
+
+    const dayStart = new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), at.getUTCDate()));
+    const monthStart = new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), 1));
+    const where = { earnerId: { in: earnerIds }, status: { not: CommissionStatus.VOIDED } };
+
+    const sumByEarner = async (periodWhere: object): Promise<Map<string, Decimal>> => {
+      const rows = await tx.commission.groupBy({
+        by: ['earnerId'],
+        where: { ...where, ...periodWhere },
+        _sum: { sourceAmount: true },
+      });
+      return new Map(
+        rows.map((row: any) => [row.earnerId, new Decimal(row._sum.sourceAmount?.toString() || 0)])
+      );
+    };
+
+    const daily = await sumByEarner({ createdAt: { gte: dayStart } });
+    const monthly = await sumByEarner({ createdAt: { gte: monthStart } });
+    const fromReferee = await sumByEarner({ sourceUserId, createdAt: { gte: monthStart } });
+
+    return new Map(
+      earnerIds.map((earnerId) => [
+        earnerId,
+        {
+          earnerDaily: daily.get(earnerId) || new Decimal(0),
+          earnerMonthly: monthly.get(earnerId) || new Decimal(0),
+          fromRefereeMonthly: fromReferee.get(earnerId) || new Decimal(0),
+        },
+      ])
+    );
+  }
+
+  /**
+   * Rebuild the webhook response for a trade that was already processed
+   *
+   * The same idempotency key with a different payload is rejected rather than replayed
+   */
+  private buildReplayResponse(
+    trade: Trade & { commissions: Commission[] },
+    request: TradeWebhookRequest
+  ): TradeWebhookResponse {
+    if (!this.isSameTrade(trade, request)) {
+      throw ErrorUtils.createApiError(
+        'TRADE_ALREADY_PROCESSED',
+        errorMessages.TRADE_ALREADY_PROCESSED,
+        { tradeId: trade.id }
+      );
+    }
+
+    return {
+      tradeId: trade.id,
+      status: 'SUCCESS',
+      tradeStatus: trade.status,
+      replayed: true,
+      commissionsDistributed: trade.commissions.map((commission) => ({
+        level: commission.commissionLevel,
+        earnerId: commission.earnerId,
+        amount: new Decimal(commission.amount.toString()),
+        rate: new Decimal(commission.rate.toString()),
+        planVersion: commission.planVersion ?? undefined,
+        cappedAmount: commission.cappedAmount
+          ? new Decimal(commission.cappedAmount.toString())
+          : undefined,
+        capReason: commission.capReason ?? undefined,
+        tokenType: commission.tokenType,
+      })),
+    };
+  }
+
+  /**
+   * Whether a delivery matches the trade already recorded under its idempotency key
+   */
+  private isSameTrade(
+    stored: Pick<TradeWebhookRequest, 'userId' | 'side' | 'baseAsset' | 'quoteAsset'> & {
+      volume: Decimal | string;
+      price: Decimal | string;
+    },
+    request: TradeWebhookRequest
+  ): boolean {
+    return (
+      stored.userId === request.userId &&
+      stored.side === request.side &&
+      stored.baseAsset === request.baseAsset &&
+      stored.quoteAsset === request.quoteAsset &&
+      new Decimal(stored.volume.toString()).eq(request.volume) &&
+      new Decimal(stored.price.toString()).eq(request.price)
+    );
+  }
+
+  /**
+   * Reverse a busted or rolled-back trade
+   *
+   * Marks the trade cancelled, voids its unclaimed commissions, records a negative
+   * clawback commission for each one already claimed (offsetting future earnings),
+   * and rolls back the trader's volume, fees and fee tier.
+   */
+  async reverseTrade(tradeReference: string, reason: string): Promise<TradeReversalResponse> {
+    const trade = await this.db.findTradeByReference(tradeReference);
+    if (!trade) {
+      throw ErrorUtils.createApiError('TRADE_NOT_FOUND', errorMessages.TRADE_NOT_FOUND);
+    }
+
+    if (trade.status === TradeStatus.CANCELLED) {
+      throw ErrorUtils.createApiError(
+        'TRADE_ALREADY_REVERSED',
+        errorMessages.TRADE_ALREADY_REVERSED
+      );
+    }
+
+    if (trade.status === TradeStatus.FAILED) {
+      throw ErrorUtils.createApiError('INVALID_TRADE_STATUS', errorMessages.INVALID_TRADE_STATUS, {
+        tradeId: trade.id,
+        status: trade.status,
+      });
+    }
+
+    return this.db.executeTransaction(async (tx) => {
+      // Guard against a concurrent reversal or settlement of the same trade
+      const { count } = await (tx as any).trade.updateMany({
+        where: { id: trade.id, status: trade.status },
+        data: {
+          status: TradeStatus.CANCELLED,
+          reversedAt: new Date(),
+          reversalReason: reason,
+        },
+      });
+
+      if (count === 0) {
+        throw ErrorUtils.createApiError(
+          'TRADE_ALREADY_REVERSED',
+          errorMessages.TRADE_ALREADY_REVERSED
+        );
+      }
+
+      const voidedCommissionIds: string[] = [];
+      const voidedCommissions: Commission[] = [];
+      const clawbackCommissions: Commission[] = [];
+      const clawbacks: TradeReversalResponse['clawbacks'] = [];
+
+      for (const commission of trade.commissions) {
+        // Void anything that has not been paid out yet
+        const voided = await (tx as any).commission.updateMany({
+          where: {
+            id: commission.id,
+            status: {
+              in: [CommissionStatus.PENDING, CommissionStatus.UNCLAIMED, CommissionStatus.FAILED],
+            },
+          },
+          data: { status: CommissionStatus.VOIDED },
+        });
+
+        if (voided.count > 0) {
+          voidedCommissionIds.push(commission.id);
+          voidedCommissions.push(commission);
+          continue;
+        }
+
+        if (commission.status === CommissionStatus.VOIDED) {
+          continue;
+        }
+
+        // Already claimed (or being claimed): record a negative balance instead.
+        // Dust paid out with the commission was earned on other trades and is kept.
+        const dustAmount = new Decimal(commission.dustAmount?.toString() || 0);
+        const amount = new Decimal(commission.amount.toString()).sub(dustAmount).neg();
+        const clawback = await (tx as any).commission.create({
+          data: {
+            amount,
+            tokenType: commission.tokenType,
+            sourceToken: commission.sourceToken,
+            sourceAmount: commission.sourceAmount
+              ? new Decimal(commission.sourceAmount.toString())
+                  .sub(dustAmount.div(commission.conversionRate.toString()))
+                  .neg()
+              : null,
+            conversionRate: commission.conversionRate,
+            commissionLevel: commission.commissionLevel,
+            rate: commission.rate,
+            planVersion: commission.planVersion,
+            earnerId: commission.earnerId,
+            sourceUserId: commission.sourceUserId,
+            tradeId: trade.id,
+            originalFeeAmount: commission.originalFeeAmount,
+            status: CommissionStatus.UNCLAIMED,
+            reversalOfId: commission.id,
+          },
+        });
+
+        clawbackCommissions.push(clawback);
+        clawbacks.push({
+          commissionId: clawback.id,
+          reversalOfId: commission.id,
+          earnerId: commission.earnerId,
+          amount,
+        });
+      }
+
+      await this.restoreCommissionDust(tx, voidedCommissions);
+      const dustAccruals = await this.takeBackDustAccruals(tx, trade.id);
+      await this.db.postJournalEntry(
+        JournalBuilder.buildVoidEntry(
+          JournalEntryType.TRADE_REVERSAL,
+          trade,
+          voidedCommissions,
+          clawbackCommissions,
+          dustAccruals
+        ),
+        tx
+      );
+
+      // Roll back the increments applied when the trade was settled
+      const tradeValue = new Decimal(trade.usdValue.toString());
+      const wasSettled = trade.status === TradeStatus.COMPLETED;
+      const trader = await (tx as any).user.update({
+        where: { id: trade.userId },
+        data: {
+          ...(wasSettled && {
+            totalTradeVolume: { decrement: tradeValue },
+            totalFeesPaid: { decrement: trade.netFeeAmount },
+          }),
+        },
+      });
+      if (wasSettled) {
+        await this.recordDailyVolume(tx, trade.userId, trade.createdAt, tradeValue.neg());
+      }
+
+      // A downgrade the reversal causes gets the same grace period as any other
+      const now = new Date();
+      const rollingVolume = await this.db.getRollingVolume(
+        trade.userId,
+        CommissionCalculator.getVolumeWindowStart(now),
+        tx
+      );
+      const { newTier } = await this.applyFeeTierDecision(
+        tx,
+        trade.userId,
+        rollingVolume,
+        await this.getFeeTiers(),
+        now,
+        'REVERSAL'
+      );
+
+      return {
+        tradeId: trade.id,
+        status: TradeStatus.CANCELLED,
+        reason,
+        voidedCommissionIds,
+        clawbacks,
+        trader: {
+          totalTradeVolume: new Decimal(trader.totalTradeVolume.toString()),
+          totalFeesPaid: new Decimal(trader.totalFeesPaid.toString()),
+          oldFeeTier: trader.feeTier,
+          newFeeTier: newTier,
+        },
+      };
+    });
+  }
+
+  /**
+   * Settle a pending trade
+   *
+   * Records the final transaction hash, releases its commissions for claiming and
+   * applies the trade to the trader's volume and fees.
+   */
+  async settleTrade(
+    tradeReference: string,
+    transactionHash: string
+  ): Promise<TradeSettlementResponse> {
+    const trade = await this.findPendingTrade(tradeReference);
+
+    return this.db.executeTransaction(async (tx) => {
+      const settledAt = new Date();
+
+      // Guard against a concurrent settlement, failure or reversal
+      const { count } = await (tx as any).trade.updateMany({
+        where: { id: trade.id, status: TradeStatus.PENDING },
+        data: { status: TradeStatus.COMPLETED, transactionHash, settledAt },
+      });
+
+      if (count === 0) {
+        throw ErrorUtils.createApiError(
+          'INVALID_TRADE_STATUS',
+          errorMessages.INVALID_TRADE_STATUS,
+          {
+            tradeId: trade.id,
+          }
+        );
+      }
+
+      const releasedCommissions = trade.commissions.filter(
+        (commission) => commission.status === CommissionStatus.PENDING
+      );
+      const releasedCommissionIds = releasedCommissions.map((commission) => commission.id);
+
+      await (tx as any).commission.updateMany({
+        where: { id: { in: releasedCommissionIds }, status: CommissionStatus.PENDING },
+        data: { status: CommissionStatus.UNCLAIMED },
+      });
+      await this.db.postJournalEntry(
+        JournalBuilder.buildSettlementEntry(trade.id, releasedCommissions),
+        tx
+      );
+
+      const tradeValue = new Decimal(trade.usdValue.toString());
+      await (tx as any).user.update({
+        where: { id: trade.userId },
+        data: {
+          totalTradeVolume: { increment: tradeValue },
+          totalFeesPaid: { increment: trade.netFeeAmount },
+        },
+      });
+      await this.recordDailyVolume(tx, trade.userId, trade.createdAt, tradeValue);
+
+      return {
+        tradeId: trade.id,
+        status: TradeStatus.COMPLETED,
+        transactionHash,
+        settledAt,
+        releasedCommissionIds,
+      };
+    });
+  }
+
+  /**
+   * Fail a pending trade that never settled
+   *
+   * Its commissions are voided; nothing was applied to the trader's totals yet.
+   */
+  async failTrade(tradeReference: string, reason: string): Promise<TradeFailureResponse> {
+    const trade = await this.findPendingTrade(tradeReference);
+
+    return this.db.executeTransaction(async (tx) => {
+      const { count } = await (tx as any).trade.updateMany({
+        where: { id: trade.id, status: TradeStatus.PENDING },
+        data: { status: TradeStatus.FAILED, failureReason: reason },
+      });
+
+      if (count === 0) {
+        throw ErrorUtils.createApiError(
+          'INVALID_TRADE_STATUS',
+          errorMessages.INVALID_TRADE_STATUS,
+          {
+            tradeId: trade.id,
+          }
+        );
+      }
+
+      const voidedCommissions = trade.commissions.filter(
+        (commission) => commission.status === CommissionStatus.PENDING
+      );
+      const voidedCommissionIds = voidedCommissions.map((commission) => commission.id);
+
+      await (tx as any).commission.updateMany({
+        where: { id: { in: voidedCommissionIds }, status: CommissionStatus.PENDING },
+        data: { status: CommissionStatus.VOIDED },
+      });
+
+      await this.restoreCommissionDust(tx, voidedCommissions);
+      const dustAccruals = await this.takeBackDustAccruals(tx, trade.id);
+      await this.db.postJournalEntry(
+        JournalBuilder.buildVoidEntry(
+          JournalEntryType.TRADE_FAILURE,
+          trade,
+          voidedCommissions,
+          [],
+          dustAccruals
+        ),
+        tx
+      );
+
+      return {
+        tradeId: trade.id,
+        status: TradeStatus.FAILED,
+        reason,
+        voidedCommissionIds,
+      };
+    });
+  }
+
+  /**
+   * Look up a trade by ID or external trade ID and ensure it awaits settlement
+   */
+  private async findPendingTrade(tradeReference: string) {
+    const trade = await this.db.findTradeByReference(tradeReference);
+    if (!trade) {
+      throw ErrorUtils.createApiError('TRADE_NOT_FOUND', errorMessages.TRADE_NOT_FOUND);
+    }
+
+    if (trade.status !== TradeStatus.PENDING) {
+      throw ErrorUtils.createApiError('INVALID_TRADE_STATUS', errorMessages.INVALID_TRADE_STATUS, {
+        tradeId: trade.id,
+        status: trade.status,
+      });
+    }
+
+    return trade;
+  }
+
+  /**
+   * Validate claim request (UI endpoint - no actual processing)
+   */
+  async validateClaimRequest(
+    userId: string,
+    tokenType: string = 'USDC'
+  ): Promise<{
+    isValid: boolean;
+    claimableAmount: Decimal;
+    errors: string[];
+  }> {
+    const user = await this.db.findUserById(userId);
+    if (!user) {
+      return {
+        isValid: false,
+        claimableAmount: new Decimal(0),
+        errors: [errorMessages.USER_NOT_FOUND],
+      };
+    }
+
+    // Get unclaimed commissions
+    const { commissions } = await this.db.getUserCommissions(
+      userId,
+      { status: CommissionStatus.UNCLAIMED, tokenType },
+      { page: 1, limit: 1000, offset: 0 }
+    );
+
+    const claimableAmount = commissions.reduce(
+      (sum, commission) => sum.add(commission.amount),
+      new Decimal(0)
+    );
+
+    const errors: string[] = [];
+
+    if (claimableAmount.lt(businessRules.minimumClaimAmount)) {
+      errors.push(`Minimum claim amount is ${businessRules.minimumClaimAmount} ${tokenType}`);
+    }
+
+    return {
+      isValid: errors.length === 0,
+      claimableAmount,
+      errors,
+    };
+  }
+
+  /**
+   * Get platform statistics (admin endpoint)
+   */
+  async getPlatformStatistics(): Promise<{
+    totalUsers: number;
+    totalTrades: number;
+    totalVolume: Decimal;
+    totalCommissions: Decimal;
+    activeReferrers: number;
+    topReferrers: Array<{
       userId: string;
       email: string;
       username?: string;
@@ -571,37 +1911,697 @@ export class ReferralService {
   }
 
   /**
-   * Update user's fee tier based on volume
+   * Check that the books balance (admin endpoint)
+   *
+   * Every journal entry must sum to zero, and each user's ledger balances must match
+   * what the trade, commission and dust records say they should be. The balances are
+   * read in separate queries, so trades posted during the check may show up as
+   * transient discrepancies.
+   */
+  async checkLedgerIntegrity(): Promise<LedgerIntegrityReport> {
+    const checkedAt = new Date();
+    const unbalancedEntries = await this.db.findUnbalancedJournalEntries();
+    const accountBalances = await this.db.getLedgerAccountBalances();
+    const expectedBalances = await this.db.getExpectedLedgerBalances();
+
+    const trialBalance: Record<string, Decimal> = {};
+    const ledgerBalances = new Map<string, Decimal>();
+    for (const { account, userId, balance } of accountBalances) {
+      trialBalance[account] = (trialBalance[account] || new Decimal(0)).add(balance);
+      if (userId) {
+        ledgerBalances.set(`${account}:${userId}`, balance);
+      }
+    }
+
+    const discrepancies: LedgerIntegrityReport['discrepancies'] = [];
+    for (const key of new Set([...ledgerBalances.keys(), ...expectedBalances.keys()])) {
+      const ledgerBalance = ledgerBalances.get(key) || new Decimal(0);
+      const expectedBalance = expectedBalances.get(key) || new Decimal(0);
+
+      if (!ledgerBalance.eq(expectedBalance)) {
+        const [account, userId] = key.split(':');
+        discrepancies.push({
+          account: account as LedgerAccount,
+          userId,
+          ledgerBalance,
+          expectedBalance,
+        });
+      }
+    }
+
+    return {
+      checkedAt,
+      balanced: unbalancedEntries.length === 0 && discrepancies.length === 0,
+      unbalancedEntries,
+      trialBalance,
+      discrepancies,
+    };
+  }
+
+  /**
+   * List commission plan versions, newest first (admin endpoint)
+   */
+  async getCommissionPlans(): Promise<CommissionPlan[]> {
+    return this.db.getCommissionPlans();
+  }
+
+  /**
+   * Publish a new commission plan version (admin endpoint)
+   *
+   * Plans are never edited in place; trades keep the rates of the plan that was in
+   * effect when they were created.
+   */
+  async createCommissionPlan(request: CreateCommissionPlanRequest): Promise<CommissionPlan> {
+    return this.db.createCommissionPlan({
+      levelRates: request.levelRates,
+      caps: request.caps,
+      effectiveFrom: request.effectiveFrom ?? new Date(),
+      description: request.description,
+    });
+  }
+
+  /**
+   * List fee tiers, inactive ones included (admin endpoint)
+   */
+  async listFeeTiers(tradeType?: string): Promise<FeeTier[]> {
+    return this.db.getAllFeeTiers(tradeType);
+  }
+
+  /**
+   * Create a fee tier (admin endpoint)
+   */
+  async createFeeTier(request: CreateFeeTierRequest): Promise<FeeTier> {
+    const tier = await this.saveFeeTierSchedule(request.tradeType, async (tx) => {
+      const existing = await tx.feeTier.findUnique({
+        where: { name_tradeType: { name: request.name, tradeType: request.tradeType } },
+      });
+      if (existing) {
+        throw ErrorUtils.createApiError('FEE_TIER_EXISTS', errorMessages.FEE_TIER_EXISTS, {
+          name: request.name,
+          tradeType: request.tradeType,
+        });
+      }
+
+      return tx.feeTier.create({ data: request });
+    });
+
+    return tier as FeeTier;
+  }
+
+  /**
+   * Update, deactivate or reactivate a fee tier (admin endpoint)
+   *
+   * Deactivated tiers stop being assigned; traders still holding one qualify on
+   * volume at trade time until the scheduled evaluation moves them.
+   */
+  async updateFeeTier(tierId: string, request: UpdateFeeTierRequest): Promise<FeeTier> {
+    const current = await this.db.findFeeTierById(tierId);
+    if (!current) {
+      throw ErrorUtils.createApiError('FEE_TIER_NOT_FOUND', errorMessages.FEE_TIER_NOT_FOUND);
+    }
+
+    const tier = await this.saveFeeTierSchedule(current.tradeType, (tx) =>
+      tx.feeTier.update({ where: { id: tierId }, data: request })
+    );
+
+    return tier as FeeTier;
+  }
+
+  /**
+   * Set the priorities of several tiers of a schedule at once (admin endpoint)
+   *
+   * Lets tiers swap places, which single updates can't do without two tiers
+   * sharing a priority in between.
+   */
+  async reorderFeeTiers(request: ReorderFeeTiersRequest): Promise<FeeTier[]> {
+    await this.saveFeeTierSchedule(request.tradeType, async (tx) => {
+      for (const { tierId, priority } of request.priorities) {
+        const { count } = await tx.feeTier.updateMany({
+          where: { id: tierId, tradeType: request.tradeType },
+          data: { priority },
+        });
+        if (count === 0) {
+          throw ErrorUtils.createApiError('FEE_TIER_NOT_FOUND', errorMessages.FEE_TIER_NOT_FOUND, {
+            tierId,
+            tradeType: request.tradeType,
+          });
+        }
+      }
+    });
+
+    return this.db.getAllFeeTiers(request.tradeType);
+  }
+
+  /**
+   * Change a fee schedule and check the result before committing
+   *
+   * The schedule's tiers are locked so concurrent changes are validated one after
+   * the other. This instance reloads its tiers at once; others pick the change up
+   * when their cache expires.
+   */
+  private async saveFeeTierSchedule<T>(
+    tradeType: string,
+    change: (tx: any) => Promise<T>
+  ): Promise<T> {
+    const result = await this.db.executeTransaction(async (tx) => {
+      await tx.$queryRaw`SELECT id FROM "fee_tiers" WHERE "tradeType" = ${tradeType} FOR UPDATE`;
+
+      const changed = await change(tx);
+
+      const tiers = await tx.feeTier.findMany({ where: { tradeType, isActive: true } });
+      const violations = CommissionCalculator.validateFeeTierSchedule(tiers, [tradeType]);
+      if (violations.length > 0) {
+        throw ErrorUtils.createApiError(
+          'INVALID_FEE_TIER_SCHEDULE',
+          errorMessages.INVALID_FEE_TIER_SCHEDULE,
+          { tradeType, violations }
+        );
+      }
+
+      return changed;
+    });
+
+    await this.loadFeeTiers();
+    return result;
+  }
+
+  /**
+   * List fee campaigns, newest first (admin endpoint)
+   */
+  async listFeeCampaigns(): Promise<FeeCampaign[]> {
+    return this.db.getFeeCampaigns();
+  }
+
+  /**
+   * Create a fee campaign (admin endpoint)
+   */
+  async createFeeCampaign(request: CreateFeeCampaignRequest): Promise<FeeCampaign> {
+    this.validateFeeCampaign(request);
+
+    const campaign = await this.db.createFeeCampaign(request);
+    await this.loadFeeCampaigns();
+    return campaign;
+  }
+
+  /**
+   * Update a fee campaign, or end it early by deactivating it (admin endpoint)
+   *
+   * Trades keep the campaign they were charged under.
+   */
+  async updateFeeCampaign(
+    campaignId: string,
+    request: UpdateFeeCampaignRequest
+  ): Promise<FeeCampaign> {
+    const current = await this.db.findFeeCampaignById(campaignId);
+    if (!current) {
+      throw ErrorUtils.createApiError(
+        'FEE_CAMPAIGN_NOT_FOUND',
+        errorMessages.FEE_CAMPAIGN_NOT_FOUND
+      );
+    }
+
+    this.validateFeeCampaign({ ...current, ...request });
+
+    const campaign = await this.db.updateFeeCampaign(campaignId, request);
+    await this.loadFeeCampaigns();
+    return campaign;
+  }
+
+  /**
+   * Check a campaign's dates and that it sets exactly one of a discount or an override rate
    */
-  async updateUserFeeTier(
-    userId: string
-  ): Promise<{ oldTier: string; newTier: string; updated: boolean }> {
+  private validateFeeCampaign(campaign: {
+    startsAt: Date;
+    endsAt: Date;
+    signedUpFrom?: Date | null;
+    signedUpTo?: Date | null;
+    discountRate?: Decimal | number | null;
+    overrideRate?: Decimal | number | null;
+  }): void {
+    const hasDiscount = campaign.discountRate !== undefined && campaign.discountRate !== null;
+    const hasOverride = campaign.overrideRate !== undefined && campaign.overrideRate !== null;
+
+    if (
+      campaign.endsAt <= campaign.startsAt ||
+      (campaign.signedUpFrom &&
+        campaign.signedUpTo &&
+        campaign.signedUpTo <= campaign.signedUpFrom) ||
+      hasDiscount === hasOverride
+    ) {
+      throw ErrorUtils.createApiError('INVALID_FEE_CAMPAIGN', errorMessages.INVALID_FEE_CAMPAIGN, {
+        startsAt: campaign.startsAt,
+        endsAt: campaign.endsAt,
+        discountRate: campaign.discountRate ?? null,
+        overrideRate: campaign.overrideRate ?? null,
+      });
+    }
+  }
+
+  /**
+   * Recalculate a user's commissions on their network's trades in a date range (admin endpoint)
+   *
+   * Stored trades are replayed under the user's current commission structure. The
+   * differences to what was accrued are written as adjustment commissions, leaving
+   * the original commissions untouched; in preview nothing is written. Caps and dust
+   * are not re-applied, and differences below the minimum commission are skipped.
+   */
+  async recalculateCommissions(
+    request: CommissionRecalculationRequest
+  ): Promise<CommissionRecalculationResponse> {
+    const { userId, startDate, endDate, preview = true, requestedById } = request;
+
+    const earner = await this.db.findUserById(userId);
+    if (!earner) {
+      throw ErrorUtils.createApiError('USER_NOT_FOUND', errorMessages.USER_NOT_FOUND);
+    }
+
+    if (!ValidationUtils.isValidDateRange(startDate, endDate)) {
+      throw ErrorUtils.createApiError('INVALID_DATE_RANGE', errorMessages.INVALID_DATE_RANGE);
+    }
+
+    const commissionPlans = await this.db.getCommissionPlans();
+
+    return this.db.executeTransaction(async (tx) => {
+      // Serialize recalculations of the same earner so adjustments aren't written twice
+      if (!preview) {
+        await (tx as any).$queryRaw`SELECT id FROM "users" WHERE id = ${userId} FOR UPDATE`;
+      }
+
+      const downline = await this.loadDownlineLevels(tx, userId);
+      const trades = await (tx as any).trade.findMany({
+        where: {
+          userId: { in: Array.from(downline.keys()) },
+          status: { in: [TradeStatus.COMPLETED, TradeStatus.PENDING] },
+          createdAt: { gte: startDate, lte: endDate },
+        },
+        include: { commissions: true },
+        orderBy: { createdAt: 'asc' },
+      });
+
+      const traders = new Map<string, User>();
+      const referralChains = new Map<string, User[]>();
+      const adjustments: CommissionRecalculationResponse['adjustments'] = [];
+      const pendingWrites: {
+        trade: any;
+        level: number;
+        adjustment: Decimal;
+        distribution?: CommissionDistribution;
+      }[] = [];
+      let totalAdjustment = new Decimal(0);
+
+      for (const trade of trades) {
+        if (!traders.has(trade.userId)) {
+          traders.set(trade.userId, (await this.db.findUserById(trade.userId))!);
+          referralChains.set(trade.userId, await this.db.getReferralChain(trade.userId));
+        }
+
+        const plan = CommissionCalculator.selectCommissionPlan(commissionPlans, trade.createdAt);
+        const distributions = await CommissionCalculator.calculateCommissionDistribution(
+          trade,
+          traders.get(trade.userId)!,
+          referralChains.get(trade.userId)!,
+          this.replayFeeCalculation(trade),
+          { plan: plan ?? undefined }
+        );
+
+        const level = downline.get(trade.userId)!;
+        const distribution = distributions.find(
+          (candidate) => candidate.earnerId === userId && candidate.level > 0
+        );
+        const recalculatedAmount = distribution?.amount || new Decimal(0);
+        const previousAmount = this.getAccruedOnTrade(trade.commissions, userId);
+        const adjustment = recalculatedAmount.sub(previousAmount);
+
+        if (adjustment.abs().lt(businessRules.minimumCommissionAmount)) {
+          continue;
+        }
+
+        adjustments.push({
+          tradeId: trade.id,
+          level,
+          previousAmount,
+          recalculatedAmount,
+          adjustment,
+        });
+        pendingWrites.push({ trade, level, adjustment, distribution });
+        totalAdjustment = totalAdjustment.add(adjustment);
+      }
+
+      const result: CommissionRecalculationResponse = {
+        preview,
+        userId,
+        startDate,
+        endDate,
+        tradesEvaluated: trades.length,
+        totalAdjustment,
+        adjustments,
+      };
+
+      if (preview) {
+        return result;
+      }
+
+      const recalculation = await (tx as any).commissionRecalculation.create({
+        data: {
+          earnerId: userId,
+          startDate,
+          endDate,
+          tradesEvaluated: trades.length,
+          totalAdjustment,
+          requestedById,
+        },
+      });
+
+      for (const [index, { trade, level, adjustment, distribution }] of pendingWrites.entries()) {
+        const { tokenType, conversionRate } = await this.resolveAdjustmentSettlement(trade, userId);
+        const commission = await (tx as any).commission.create({
+          data: {
+            amount: DecimalUtils.round(
+              adjustment.mul(conversionRate),
+              businessRules.commissionCalculationRounding
+            ),
+            tokenType,
+            sourceToken: 'USD',
+            sourceAmount: adjustment,
+            conversionRate,
+            commissionLevel: level,
+            rate: distribution?.rate || new Decimal(0),
+            planVersion: distribution?.planVersion,
+            ambassadorTier: distribution?.ambassadorTier,
+            earnerId: userId,
+            sourceUserId: trade.userId,
+            tradeId: trade.id,
+            originalFeeAmount: trade.feeAmount,
+            status:
+              trade.status === TradeStatus.PENDING
+                ? CommissionStatus.PENDING
+                : CommissionStatus.UNCLAIMED,
+            recalculationId: recalculation.id,
+          },
+        });
+        adjustments[index].commissionId = commission.id;
+
+        await this.db.postJournalEntry(
+          JournalBuilder.buildAdjustmentEntry(trade.id, [commission]),
+          tx
+        );
+      }
+
+      return { ...result, recalculationId: recalculation.id };
+    });
+  }
+
+  /**
+   * Users in a referrer's network, with the level they sit at below the referrer
+   */
+  private async loadDownlineLevels(tx: any, userId: string): Promise<Map<string, number>> {
+    const levels = new Map<string, number>();
+    let frontier = [userId];
+
+    for (let level = 1; level <= businessRules.maxReferralDepth && frontier.length > 0; level++) {
+      const referrals = await tx.user.findMany({
+        where: { referrerId: { in: frontier } },
+        select: { id: true },
+      });
+
+      frontier = referrals
+        .map((referral: { id: string }) => referral.id)
+        .filter((id: string) => !levels.has(id));
+      frontier.forEach((id) => levels.set(id, level));
+    }
+
+    return levels;
+  }
+
+  /**
+   * Rebuild the fee calculation of a stored trade for replaying its commissions
+   */
+  private replayFeeCalculation(trade: Trade): FeeCalculationResult {
+    const feeAmount = new Decimal(trade.feeAmount.toString());
+    const appliedFeeRate = new Decimal(trade.feeRate.toString());
+
+    return {
+      originalFeeRate: appliedFeeRate,
+      appliedFeeRate,
+      feeAmount,
+      netFeeAmount: new Decimal(trade.netFeeAmount.toString()),
+      rebateAmount: new Decimal(trade.rebateAmount.toString()),
+      kickbackAmount: new Decimal(trade.kickbackAmount?.toString() || 0),
+      discountApplied: false,
+      tierUsed: 'REPLAY',
+      feeSchedule: trade.tradeType,
+      liquidityRole: trade.liquidityRole,
+    };
+  }
+
+  /**
+   * What an earner accrued on a trade in USD, before caps and without dust paid out with it
+   */
+  private getAccruedOnTrade(commissions: Commission[], earnerId: string): Decimal {
+    return commissions
+      .filter(
+        (commission) =>
+          commission.earnerId === earnerId &&
+          commission.commissionLevel > 0 &&
+          commission.status !== CommissionStatus.VOIDED
+      )
+      .reduce((total, commission) => {
+        const conversionRate = new Decimal(commission.conversionRate.toString());
+        const capped = new Decimal(commission.cappedAmount?.toString() || 0);
+        const dust = new Decimal(commission.dustAmount?.toString() || 0);
+
+        return total
+          .add(commission.sourceAmount?.toString() || 0)
+          .add(capped.div(conversionRate))
+          .sub(dust.div(conversionRate));
+      }, new Decimal(0));
+  }
+
+  /**
+   * Settlement token of an adjustment: that of the earner's commission on the trade,
+   * or the one the trade would settle in today when the earner had none
+   */
+  private async resolveAdjustmentSettlement(
+    trade: Trade & { commissions: Commission[] },
+    earnerId: string
+  ): Promise<{ tokenType: string; conversionRate: Decimal }> {
+    const existing = trade.commissions.find((commission) => commission.earnerId === earnerId);
+    if (existing) {
+      return {
+        tokenType: existing.tokenType,
+        conversionRate: new Decimal(existing.conversionRate.toString()),
+      };
+    }
+
+    const tokenType = CommissionCalculator.selectSettlementToken(trade.quoteAsset, trade.network);
+    const usdRate =
+      tokenType === trade.quoteAsset
+        ? new Decimal(trade.quoteUsdRate.toString())
+        : await this.getUsdRate(tokenType, trade.createdAt);
+
+    return { tokenType, conversionRate: new Decimal(1).div(usdRate) };
+  }
+
+  /**
+   * Get a trader's fee tier, the rate they pay and their progress to the next tier
+   *
+   * The rate is worked out as for the trader's next trade, including an upgrade
+   * their volume already qualifies for. Only campaigns without asset, network or
+   * chain filters can apply, as there is no trade to match them against.
+   */
+  async getFeeTierStatus(
+    userId: string,
+    tradeType: string = 'SPOT',
+    liquidityRole: LiquidityRole = 'TAKER'
+  ): Promise<FeeTierStatusResponse> {
     const user = await this.db.findUserById(userId);
     if (!user) {
       throw ErrorUtils.createApiError('USER_NOT_FOUND', errorMessages.USER_NOT_FOUND);
     }
 
-    const optimalTier = CommissionCalculator.calculateOptimalFeeTier(
-      user.totalTradeVolume,
-      this.feeTiers
+    const now = new Date();
+    const [rollingVolume, feeTiers, campaigns, history] = await Promise.all([
+      this.db.getRollingVolume(userId, CommissionCalculator.getVolumeWindowStart(now)),
+      this.getFeeTiers(),
+      this.getFeeCampaigns(),
+      this.db.getFeeTierHistory(userId),
+    ]);
+
+    const decision = CommissionCalculator.evaluateFeeTier(user, rollingVolume, feeTiers, now);
+    const trader =
+      decision.action === 'UPGRADE' ? { ...user, feeTier: decision.qualifiedTier } : user;
+    const feeCalculation = CommissionCalculator.calculateEffectiveFeeRate(
+      trader,
+      new Decimal(1),
+      feeTiers,
+      { tradeType, liquidityRole, at: now, rollingVolume, campaigns }
     );
 
-    if (optimalTier.name !== user.feeTier) {
-      await this.db.updateUser(userId, { feeTier: optimalTier.name });
-      return {
-        oldTier: user.feeTier,
-        newTier: optimalTier.name,
-        updated: true,
-      };
+    return {
+      userId,
+      feeTier: user.feeTier,
+      downgradeAt: user.feeTierDowngradeAt || null,
+      rate: {
+        tradeType: feeCalculation.feeSchedule,
+        liquidityRole,
+        baseFeeRate: feeCalculation.originalFeeRate,
+        discountedBaseRate: CommissionCalculator.getDiscountedBaseRate(
+          user,
+          feeCalculation.originalFeeRate,
+          now
+        ),
+        appliedFeeRate: feeCalculation.appliedFeeRate,
+        tierUsed: feeCalculation.tierUsed,
+        campaignId: feeCalculation.campaignId ?? null,
+        discountApplied: feeCalculation.discountApplied,
+      },
+      progress: CommissionCalculator.calculateFeeTierProgress(
+        rollingVolume,
+        feeTiers,
+        feeCalculation.feeSchedule
+      ),
+      history,
+    };
+  }
+
+  /**
+   * Update user's fee tier based on their volume over the fee tier window
+   *
+   * Follows the scheduled evaluation: downgrades wait out the grace period, which
+   * downgradeAt reports while pending.
+   */
+  async updateUserFeeTier(userId: string): Promise<{
+    oldTier: string;
+    newTier: string;
+    updated: boolean;
+    downgradeAt: Date | null;
+    progress: FeeTierProgress;
+  }> {
+    const user = await this.db.findUserById(userId);
+    if (!user) {
+      throw ErrorUtils.createApiError('USER_NOT_FOUND', errorMessages.USER_NOT_FOUND);
     }
 
+    const now = new Date();
+    const rollingVolume = await this.db.getRollingVolume(
+      userId,
+      CommissionCalculator.getVolumeWindowStart(now)
+    );
+    const feeTiers = await this.getFeeTiers();
+    const progress = CommissionCalculator.calculateFeeTierProgress(rollingVolume, feeTiers);
+
+    const { oldTier, newTier, decision } = await this.db.executeTransaction((tx) =>
+      this.applyFeeTierDecision(tx, userId, rollingVolume, feeTiers, now, 'MANUAL')
+    );
+
     return {
-      oldTier: user.feeTier,
-      newTier: user.feeTier,
-      updated: false,
+      oldTier,
+      newTier,
+      updated: newTier !== oldTier,
+      downgradeAt: decision.downgradeAt,
+      progress,
     };
   }
 
+  /**
+   * Re-evaluate the fee tier of every user with recent volume, a tier above base or a
+   * pending downgrade
+   *
+   * Upgrades apply at once; downgrades are scheduled and applied once their grace
+   * period has passed. Returns null when another instance is already evaluating.
+   */
+  async evaluateFeeTiers(at: Date = new Date()): Promise<FeeTierEvaluationResult | null> {
+    return this.db.runExclusively(
+      advisoryLockKeys.feeTierEvaluation,
+      async () => {
+        const candidates = await this.db.getFeeTierEvaluationCandidates(
+          CommissionCalculator.getVolumeWindowStart(at)
+        );
+        const feeTiers = await this.getFeeTiers();
+        const changes: FeeTierEvaluationResult['changes'] = [];
+        const scheduledDowngrades: FeeTierEvaluationResult['scheduledDowngrades'] = [];
+
+        for (const { user, rollingVolume } of candidates) {
+          // Only lock the traders that look like they need a change
+          if (
+            CommissionCalculator.evaluateFeeTier(user, rollingVolume, feeTiers, at).action ===
+            'NONE'
+          ) {
+            continue;
+          }
+
+          const { oldTier, newTier, decision } = await this.db.executeTransaction((tx) =>
+            this.applyFeeTierDecision(tx, user.id, rollingVolume, feeTiers, at, 'SCHEDULED')
+          );
+
+          if (decision.action === 'UPGRADE' || decision.action === 'DOWNGRADE') {
+            changes.push({ userId: user.id, oldTier, newTier, direction: decision.action });
+          } else if (decision.action === 'SCHEDULE_DOWNGRADE') {
+            scheduledDowngrades.push({
+              userId: user.id,
+              tier: decision.qualifiedTier,
+              downgradeAt: decision.downgradeAt!,
+            });
+          }
+        }
+
+        return { evaluatedAt: at, evaluated: candidates.length, changes, scheduledDowngrades };
+      },
+      feeTierConfig.evaluationIntervalMs
+    );
+  }
+
+  /**
+   * Re-evaluate every referrer's ambassador tier against their recent network activity
+   *
+   * Referrers without activity in the window lose their tier. Commissions already
+   * created keep the tier they were calculated with. Returns null when another
+   * instance is already evaluating.
+   */
+  async evaluateAmbassadorTiers(
+    at: Date = new Date()
+  ): Promise<AmbassadorTierEvaluationResult | null> {
+    return this.db.runExclusively(
+      advisoryLockKeys.ambassadorTierEvaluation,
+      async () => {
+        const since = new Date(at.getTime() - ambassadorConfig.windowDays * 24 * 60 * 60 * 1000);
+        const metrics = await this.db.getAmbassadorMetrics(since);
+        const currentTiers = await this.db.getAmbassadorTierHolders();
+
+        const referrerIds = new Set([...metrics.keys(), ...currentTiers.keys()]);
+        const changes: AmbassadorTierEvaluationResult['changes'] = [];
+
+        for (const userId of referrerIds) {
+          const newTier = CommissionCalculator.determineAmbassadorTier(
+            metrics.get(userId) || { networkVolume: new Decimal(0), activeReferees: 0 }
+          );
+          if (newTier === (currentTiers.get(userId) ?? null)) continue;
+
+          // Compare against the locked row, which may have changed since it was read
+          const oldTier = await this.db.executeTransaction(async (tx) => {
+            await tx.$queryRaw`SELECT id FROM "users" WHERE id = ${userId} FOR UPDATE`;
+            const user = await tx.user.findUniqueOrThrow({
+              where: { id: userId },
+              select: { ambassadorTier: true },
+            });
+
+            if (user.ambassadorTier !== newTier) {
+              await tx.user.update({ where: { id: userId }, data: { ambassadorTier: newTier } });
+            }
+            return user.ambassadorTier as string | null;
+          });
+
+          if (oldTier !== newTier) {
+            changes.push({ userId, oldTier, newTier });
+          }
+        }
+
+        return { evaluatedAt: at, evaluated: referrerIds.size, changes };
+      },
+      ambassadorConfig.evaluationIntervalMs
+    );
+  }
+
   /**
    * Clean up service resources
    */
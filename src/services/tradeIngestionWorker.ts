@@ -0,0 +1,152 @@
+import { DatabaseService } from './database';
+import { ReferralService } from './referralService';
+import { ErrorUtils } from '../utils/helpers';
+import { ingestionConfig, errorMessages } from '../config';
+import { TradeInboxEntry } from '../types';
+
+/**
+ * Error codes worth retrying; any other API error is a permanent failure of the payload
+ */
+const RETRYABLE_ERROR_CODES = new Set([
+  'DATABASE_ERROR',
+  'EXTERNAL_SERVICE_ERROR',
+  'PRICE_UNAVAILABLE',
+]);
+
+/**
+ * Prisma error codes worth retrying: write conflicts, unreachable database and
+ * connection or pool timeouts. Constraint violations and the like are permanent.
+ */
+const RETRYABLE_PRISMA_CODES = new Set(['P2034', 'P1001', 'P1008', 'P2024']);
+
+/**
+ * Trade Ingestion Worker - Processes trade webhooks accepted into the inbox
+ *
+ * Polls for due inbox entries and runs them through the regular trade processing.
+ * Transient failures are retried with exponential backoff; permanent failures and
+ * entries that exhaust their attempts are moved to DEAD_LETTER for admin review.
+ */
+export class TradeIngestionWorker {
+  private db: DatabaseService;
+  private referralService: ReferralService;
+  private initialized: Promise<void> | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(referralService?: ReferralService, db?: DatabaseService) {
+    this.db = db || new DatabaseService();
+    this.referralService = referralService || new ReferralService();
+  }
+
+  /**
+   * Start polling the inbox
+   */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.scheduleNextPoll(0);
+  }
+
+  /**
+   * Stop polling; an in-flight run finishes on its own
+   */
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Process one batch of due entries, returning how many were handled
+   */
+  async runOnce(): Promise<number> {
+    await this.ensureInitialized();
+
+    await this.db.releaseStaleTradeInboxEntries(
+      new Date(Date.now() - ingestionConfig.processingTimeoutMs)
+    );
+
+    const entries = await this.db.claimDueTradeInboxEntries(ingestionConfig.batchSize);
+    for (const entry of entries) {
+      await this.processEntry(entry);
+    }
+
+    return entries.length;
+  }
+
+  /**
+   * Delay before the next attempt after `attempts` failed attempts
+   */
+  static getRetryDelay(attempts: number): number {
+    const delay = ingestionConfig.baseRetryDelayMs * Math.pow(2, Math.max(0, attempts - 1));
+    return Math.min(delay, ingestionConfig.maxRetryDelayMs);
+  }
+
+  private async processEntry(entry: TradeInboxEntry): Promise<void> {
+    try {
+      const result = await this.referralService.processTradeWebhook(entry.payload);
+      await this.db.completeTradeInboxEntry(entry.id, result);
+    } catch (error: any) {
+      const failure = this.describeError(error);
+      const canRetry = failure.retryable && entry.attempts < ingestionConfig.maxAttempts;
+      const nextAttemptAt = canRetry
+        ? new Date(Date.now() + TradeIngestionWorker.getRetryDelay(entry.attempts))
+        : null;
+
+      await this.db.failTradeInboxEntry(entry.id, failure, nextAttemptAt);
+    }
+  }
+
+  private describeError(error: any): { code: string; message: string; retryable: boolean } {
+    if (typeof error?.code === 'string' && /^P\d{4}$/.test(error.code)) {
+      return {
+        code: 'DATABASE_ERROR',
+        message: error.message,
+        retryable: RETRYABLE_PRISMA_CODES.has(error.code),
+      };
+    }
+
+    if (ErrorUtils.isApiError(error)) {
+      return {
+        code: error.code,
+        message: error.message,
+        retryable: RETRYABLE_ERROR_CODES.has(error.code),
+      };
+    }
+
+    console.error('Trade ingestion error:', error);
+    return {
+      code: 'INTERNAL_SERVER_ERROR',
+      message: ErrorUtils.getErrorMessage(error) || errorMessages.INTERNAL_SERVER_ERROR,
+      retryable: true,
+    };
+  }
+
+  private ensureInitialized(): Promise<void> {
+    if (!this.initialized) {
+      this.initialized = this.referralService.initialize().catch((error) => {
+        this.initialized = null;
+        throw error;
+      });
+    }
+    return this.initialized;
+  }
+
+  private scheduleNextPoll(delayMs: number): void {
+    this.timer = setTimeout(async () => {
+      let processed = 0;
+      try {
+        processed = await this.runOnce();
+      } catch (error) {
+        console.error('Trade ingestion worker poll failed:', error);
+      }
+
+      if (this.running) {
+        // Keep draining without waiting while there is a backlog
+        this.scheduleNextPoll(processed > 0 ? 0 : ingestionConfig.pollIntervalMs);
+      }
+    }, delayMs);
+  }
+}
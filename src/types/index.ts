@@ -7,7 +7,11 @@ export interface User {
   username?: string;
   referralCode: string;
   referrerId?: string;
+  referralExpiresAt?: Date | null; // End of the direct referrer's earning window and the signup discount
+  kickbackRate: Decimal; // Share of their level-1 commission given back to referees
+  ambassadorTier?: string | null; // Ambassador tier raising the referrer's commission rates
   feeTier: string;
+  feeTierDowngradeAt?: Date | null; // When a pending fee tier downgrade takes effect
   customFeeRate?: Decimal;
   feeDiscountRate: Decimal;
   customCommissionStructure?: CustomCommissionStructure;
@@ -22,9 +26,14 @@ export interface User {
 }
 
 export interface CustomCommissionStructure {
-  level1Rate?: number; // Direct referral commission rate
-  level2Rate?: number; // Second level commission rate
-  level3Rate?: number; // Third level commission rate
+  levelRates?: number[]; // Commission rate per level, index 0 is the direct referral
+  earningWindowDays?: number; // Overrides the program's earning window for this referrer's referees
+  /** @deprecated Stored structures only; use levelRates */
+  level1Rate?: number;
+  /** @deprecated Stored structures only; use levelRates */
+  level2Rate?: number;
+  /** @deprecated Stored structures only; use levelRates */
+  level3Rate?: number;
   type: 'KOL_50' | 'KOL_CUSTOM' | 'STANDARD';
   description?: string;
 }
@@ -35,6 +44,11 @@ export interface Commission {
   tokenType: string;
   commissionLevel: number;
   rate: Decimal;
+  planVersion?: number; // Commission plan that produced the rate
+  cappedAmount?: Decimal; // Withheld by a commission cap, in tokenType
+  capReason?: CommissionCapReason;
+  dustAmount?: Decimal; // Accrued dust included in amount (negative: taken back), in tokenType
+  ambassadorTier?: string; // Earner's ambassador tier when the commission was created
   earnerId: string;
   sourceUserId: string;
   tradeId: string;
@@ -42,6 +56,11 @@ export interface Commission {
   status: CommissionStatus;
   claimedAt?: Date;
   claimId?: string;
+  reversalOfId?: string;
+  recalculationId?: string; // Set on adjustments written by a recalculation
+  conversionRate: Decimal;
+  sourceToken?: string;
+  sourceAmount?: Decimal;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -55,15 +74,25 @@ export interface Trade {
   side: string;
   volume: Decimal;
   price: Decimal;
+  liquidityRole: LiquidityRole;
   feeRate: Decimal;
   feeAmount: Decimal;
   netFeeAmount: Decimal;
   rebateAmount: Decimal;
+  kickbackAmount: Decimal; // Credited to the trader out of the referrer's commission (USD)
+  campaignId?: string | null; // Promotional fee campaign behind feeRate
   chain: string;
   network: string;
   transactionHash?: string;
+  externalTradeId?: string;
+  idempotencyKey?: string;
   status: TradeStatus;
   settledAt?: Date;
+  reversedAt?: Date;
+  reversalReason?: string;
+  failureReason?: string;
+  quoteUsdRate: Decimal;
+  usdValue: Decimal;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -87,8 +116,10 @@ export interface Claim {
 export interface FeeTier {
   id: string;
   name: string;
+  tradeType: string;
   minimumVolume: Decimal;
-  feeRate: Decimal;
+  feeRate: Decimal; // Taker rate
+  makerFeeRate?: Decimal; // Negative for maker rebates, falls back to feeRate
   description?: string;
   isActive: boolean;
   priority: number;
@@ -96,6 +127,41 @@ export interface FeeTier {
   updatedAt: Date;
 }
 
+// REFERRED and UNREFERRED split traders on whether they have a referrer;
+// AMBASSADOR matches traders holding an ambassador tier
+export type FeeCampaignSegment = 'REFERRED' | 'UNREFERRED' | 'AMBASSADOR';
+
+export interface FeeCampaign {
+  id: string;
+  name: string;
+  description?: string | null;
+  startsAt: Date;
+  endsAt: Date; // Exclusive
+  assets: string[]; // Base or quote asset of the trade; empty = any
+  networks: string[]; // Empty = any
+  chains: string[]; // Empty = any
+  tradeTypes: string[]; // Empty = any
+  userSegments: FeeCampaignSegment[]; // Empty = any
+  signedUpFrom?: Date | null;
+  signedUpTo?: Date | null; // Exclusive
+  discountRate?: Decimal | null; // Share taken off the rate the trader would pay
+  overrideRate?: Decimal | null; // Rate charged instead, when lower
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CommissionPlan {
+  id: string;
+  version: number;
+  levelRates: Decimal[]; // Rate per referral level, direct referral first
+  caps?: CommissionCaps | null; // Overrides the configured default caps
+  description?: string;
+  effectiveFrom: Date;
+  effectiveTo?: Date | null; // Null while the plan is the latest one
+  createdAt: Date;
+}
+
 export interface ReferralNetwork {
   id: string;
   userId: string;
@@ -110,10 +176,12 @@ export interface ReferralNetwork {
 
 // Enums
 export enum CommissionStatus {
+  PENDING = 'PENDING',
   UNCLAIMED = 'UNCLAIMED',
   CLAIMED = 'CLAIMED',
   PROCESSING = 'PROCESSING',
   FAILED = 'FAILED',
+  VOIDED = 'VOIDED',
 }
 
 export enum TradeStatus {
@@ -123,6 +191,13 @@ export enum TradeStatus {
   CANCELLED = 'CANCELLED',
 }
 
+export enum TradeInboxStatus {
+  PENDING = 'PENDING',
+  PROCESSING = 'PROCESSING',
+  COMPLETED = 'COMPLETED',
+  DEAD_LETTER = 'DEAD_LETTER',
+}
+
 export enum ClaimStatus {
   PENDING = 'PENDING',
   PROCESSING = 'PROCESSING',
@@ -130,6 +205,26 @@ export enum ClaimStatus {
   FAILED = 'FAILED',
 }
 
+export enum LedgerAccount {
+  TRADER_FEES = 'TRADER_FEES', // Fees charged to a trader
+  TRADER_REBATES = 'TRADER_REBATES', // Fee discounts given back to a trader
+  COMMISSIONS_PENDING = 'COMMISSIONS_PENDING', // Owed to an earner once the trade settles
+  COMMISSIONS_PAYABLE = 'COMMISSIONS_PAYABLE', // Claimable by an earner (referrer or kickback recipient)
+  COMMISSION_DUST = 'COMMISSION_DUST', // Sub-minimum commissions accrued for an earner
+  PAYOUT_CLEARING = 'PAYOUT_CLEARING', // Claimed commissions on their way out
+  PLATFORM_REVENUE = 'PLATFORM_REVENUE', // Fee share kept by the platform
+}
+
+export enum JournalEntryType {
+  TRADE = 'TRADE',
+  TRADE_SETTLEMENT = 'TRADE_SETTLEMENT',
+  TRADE_REVERSAL = 'TRADE_REVERSAL',
+  TRADE_FAILURE = 'TRADE_FAILURE',
+  CLAIM = 'CLAIM',
+  COMMISSION_ADJUSTMENT = 'COMMISSION_ADJUSTMENT',
+  OPENING_BALANCE = 'OPENING_BALANCE', // Balances of records that predate the journal
+}
+
 // Request/Response Types
 export interface GenerateReferralCodeRequest {
   userId: string;
@@ -138,6 +233,12 @@ export interface GenerateReferralCodeRequest {
 export interface GenerateReferralCodeResponse {
   referralCode: string;
   referralUrl: string;
+  kickbackRate: Decimal;
+}
+
+export interface UpdateKickbackRateRequest {
+  userId: string;
+  kickbackRate: number; // Share of the level-1 commission given back, 0 to 1
 }
 
 export interface RegisterWithReferralRequest {
@@ -155,6 +256,7 @@ export interface RegisterWithReferralResponse {
     referralCode: string;
     referrerId?: string;
     feeDiscountRate: number;
+    referralExpiresAt?: Date | null;
   };
   token: string;
 }
@@ -166,6 +268,7 @@ export interface ReferralNetworkResponse {
     username?: string;
     level: number;
     joinedAt: Date;
+    referralExpiresAt?: Date | null; // When this user's trades stop earning their direct referrer commissions
     totalVolume: Decimal;
     totalCommissions: Decimal;
   };
@@ -181,16 +284,18 @@ export interface EarningsBreakdownRequest {
 }
 
 export interface EarningsBreakdownResponse {
+  // Balances from the ledger, in USD
   totalEarnings: {
     unclaimed: Decimal;
     claimed: Decimal;
+    pending: Decimal; // From trades awaiting settlement, not included in total
+    capped: Decimal; // Withheld by commission caps, not included in total
+    dust: Decimal; // Accrued below the minimum commission, in USD; not included in total
+    kickbacksReceived: Decimal; // Credited back by the user's referrer, included in total
+    kickbacksGiven: Decimal; // Given back to the user's referees, not included in total
     total: Decimal;
   };
-  earningsByLevel: {
-    level1: Decimal;
-    level2: Decimal;
-    level3: Decimal;
-  };
+  earningsByLevel: Record<string, Decimal>; // level1..levelN up to the configured depth
   earningsByUser: {
     userId: string;
     username?: string;
@@ -219,48 +324,432 @@ export interface TradeWebhookRequest {
   chain: string;
   network: string;
   transactionHash?: string;
+  externalTradeId?: string; // Upstream trade ID, preferred idempotency key
+  status?: TradeStatus.PENDING | TradeStatus.COMPLETED; // PENDING awaits a settlement webhook
+  liquidityRole?: LiquidityRole; // Defaults to TAKER
+}
+
+export interface CreateCommissionPlanRequest {
+  levelRates: number[];
+  caps?: CommissionCaps;
+  effectiveFrom?: Date; // Defaults to now
+  description?: string;
+}
+
+export interface CreateFeeCampaignRequest {
+  name: string;
+  description?: string;
+  startsAt: Date;
+  endsAt: Date;
+  assets?: string[];
+  networks?: string[];
+  chains?: string[];
+  tradeTypes?: string[];
+  userSegments?: FeeCampaignSegment[];
+  signedUpFrom?: Date | null;
+  signedUpTo?: Date | null;
+  discountRate?: number | null; // Exactly one of discountRate and overrideRate
+  overrideRate?: number | null;
+}
+
+export type UpdateFeeCampaignRequest = Partial<CreateFeeCampaignRequest> & {
+  isActive?: boolean; // false ends the campaign early
+};
+
+export interface CreateFeeTierRequest {
+  name: string;
+  tradeType: string;
+  minimumVolume: number;
+  feeRate: number;
+  makerFeeRate?: number | null; // null = feeRate
+  priority: number;
+  description?: string;
+}
+
+// Name and trade type are fixed: users are assigned tiers by name
+export interface UpdateFeeTierRequest {
+  minimumVolume?: number;
+  feeRate?: number;
+  makerFeeRate?: number | null;
+  priority?: number;
+  description?: string;
+  isActive?: boolean; // false deactivates the tier
+}
+
+export interface ReorderFeeTiersRequest {
+  tradeType: string;
+  priorities: { tierId: string; priority: number }[];
+}
+
+export interface CommissionRecalculationRequest {
+  userId: string; // Earner whose commissions are recalculated
+  startDate: Date;
+  endDate: Date;
+  preview?: boolean; // Defaults to true; nothing is written in preview
+  requestedById?: string;
+}
+
+export interface CommissionRecalculationResponse {
+  recalculationId?: string; // Set once committed
+  preview: boolean;
+  userId: string;
+  startDate: Date;
+  endDate: Date;
+  tradesEvaluated: number;
+  totalAdjustment: Decimal; // USD
+  adjustments: {
+    tradeId: string;
+    level: number;
+    previousAmount: Decimal; // Accrued on the trade so far, including earlier adjustments (USD)
+    recalculatedAmount: Decimal; // Under the current structure (USD)
+    adjustment: Decimal; // USD
+    commissionId?: string; // Set once committed
+  }[];
 }
 
 export interface TradeWebhookResponse {
   tradeId: string;
   status: string;
+  tradeStatus: TradeStatus;
+  replayed?: boolean; // True when the trade was already processed and this is the original result
   commissionsDistributed: {
     level: number;
     earnerId: string;
     amount: Decimal;
     rate: Decimal;
+    planVersion?: number;
+    cappedAmount?: Decimal;
+    capReason?: CommissionCapReason;
+    dustAmount?: Decimal;
+    ambassadorTier?: string;
+    tokenType?: string;
+  }[];
+}
+
+// Hypothetical values replacing a user's own in a simulation
+export interface SimulationUserOverrides {
+  customCommissionStructure?: CustomCommissionStructure;
+  ambassadorTier?: string | null;
+  kickbackRate?: number;
+  totalTradeVolume?: number; // Volume over the fee tier window; selects the fee tier
+  customFeeRate?: number;
+  feeDiscountRate?: number;
+}
+
+export interface TradeSimulationRequest extends TradeWebhookRequest {
+  overrides?: {
+    trader?: SimulationUserOverrides;
+    referrers?: Record<string, SimulationUserOverrides>; // Keyed by referrer user ID
+  };
+}
+
+export interface TradeSimulationResponse {
+  simulatedAt: Date;
+  trade: {
+    userId: string;
+    tradeType: string;
+    usdValue: Decimal;
+    quoteUsdRate: Decimal;
+    planVersion: number;
+    settlementToken: string;
+    conversionRate: Decimal;
+  };
+  feeCalculation: FeeCalculationResult;
+  commissionsDistributed: (Omit<CommissionDistribution, 'commissionId'> & {
+    settlementAmount: Decimal; // amount (USD) converted into tokenType
+  })[];
+  platformShares: PlatformShare[];
+}
+
+export interface TradeInboxEntry {
+  id: string;
+  payload: TradeWebhookRequest;
+  idempotencyKey?: string;
+  status: TradeInboxStatus;
+  attempts: number;
+  nextAttemptAt: Date;
+  lastError?: string;
+  lastErrorCode?: string;
+  tradeId?: string;
+  result?: TradeWebhookResponse;
+  processedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface TradeIngestionAcceptedResponse {
+  ingestionId: string;
+  status: TradeInboxStatus;
+}
+
+// A delivery is queued, or answered with the result of the trade it replays
+export type TradeWebhookAcceptance =
+  | { queued: true; response: TradeIngestionAcceptedResponse }
+  | { queued: false; response: TradeWebhookResponse };
+
+export interface TradeBatchItemResult {
+  index: number; // Position of the item in the submitted batch
+  success: boolean;
+  data?: TradeWebhookResponse;
+  error?: {
+    code: string;
+    message: string;
+    details?: any;
+  };
+}
+
+export interface TradeBatchResponse {
+  results: TradeBatchItemResult[];
+  summary: {
+    total: number;
+    succeeded: number;
+    failed: number;
+  };
+}
+
+export interface TradeReversalResponse {
+  tradeId: string;
+  status: TradeStatus;
+  reason: string;
+  voidedCommissionIds: string[];
+  clawbacks: {
+    commissionId: string;
+    reversalOfId: string;
+    earnerId: string;
+    amount: Decimal; // Negative, offsets future earnings
   }[];
+  trader: {
+    totalTradeVolume: Decimal;
+    totalFeesPaid: Decimal;
+    oldFeeTier: string;
+    newFeeTier: string;
+  };
+}
+
+export interface TradeSettlementResponse {
+  tradeId: string;
+  status: TradeStatus;
+  transactionHash: string;
+  settledAt: Date;
+  releasedCommissionIds: string[]; // Moved from PENDING to UNCLAIMED
+}
+
+export interface TradeFailureResponse {
+  tradeId: string;
+  status: TradeStatus;
+  reason: string;
+  voidedCommissionIds: string[];
 }
 
 // Configuration Types
 export interface CommissionConfig {
   maxDepth: number;
-  rates: {
-    level1: number;
-    level2: number;
-    level3: number;
-  };
+  levelRates: number[]; // Commission rate per level, index 0 is the direct referral
+  earningWindowDays: number; // Days after a referee's signup their referrers earn on their trades (0 = forever)
   defaultFeeDiscount: number;
   baseFeeRate: number;
 }
 
+// Referrers qualify on either threshold, measured over the evaluation window
+export interface AmbassadorTier {
+  name: string;
+  minNetworkVolume: number; // Trade volume of the referrer's network, USD
+  minActiveReferees: number; // Direct referees who traded
+  levelRates: number[]; // Raised rate per level; a tier never lowers the standard rate
+  description?: string;
+}
+
+export interface AmbassadorMetrics {
+  networkVolume: Decimal;
+  activeReferees: number;
+}
+
+export interface AmbassadorTierEvaluationResult {
+  evaluatedAt: Date;
+  evaluated: number; // Referrers with network activity or a tier
+  changes: { userId: string; oldTier: string | null; newTier: string | null }[];
+}
+
+// QUOTE_ASSET: pay in the trade's quote asset (falls back to the settlement token if unsupported)
+// SETTLEMENT_STABLECOIN: always convert to the configured settlement stablecoin
+// NETWORK_DEFAULT: pay in the configured token for the trade's network
+export type SettlementTokenPolicy = 'QUOTE_ASSET' | 'SETTLEMENT_STABLECOIN' | 'NETWORK_DEFAULT';
+
+export interface SettlementConfig {
+  policy: SettlementTokenPolicy;
+  settlementToken: string;
+  networkDefaults: Record<string, string>;
+}
+
 export interface FeeCalculationResult {
   originalFeeRate: Decimal;
   appliedFeeRate: Decimal;
   feeAmount: Decimal;
   netFeeAmount: Decimal;
   rebateAmount: Decimal;
+  kickbackAmount?: Decimal; // Credited to the trader out of the referrer's level-1 commission
+  referrerCommissionAmount?: Decimal; // Level-1 commission left to the referrer after the kickback
   discountApplied: boolean;
-  tierUsed: string;
+  tierUsed: string; // CAMPAIGN when a campaign set the rate
+  campaignId?: string; // Campaign behind appliedFeeRate
+  feeSchedule: string; // Product fee schedule applied (SPOT, FUTURES, OPTIONS)
+  liquidityRole: LiquidityRole;
+}
+
+export type LiquidityRole = 'MAKER' | 'TAKER';
+
+export interface FeeCalculationOptions {
+  tradeType?: string; // Selects the product fee schedule, defaults to SPOT
+  liquidityRole?: LiquidityRole; // Defaults to TAKER
+  at?: Date; // Time of the trade, decides whether the signup discount has lapsed; defaults to now
+  referrer?: User; // The trader's direct referrer, whose kickback rate applies
+  levelRates?: (Decimal | number)[]; // Commission schedule the kickback is taken from; defaults to the configured one
+  rollingVolume?: Decimal; // Trader's volume over the fee tier window; defaults to lifetime volume
+  campaigns?: FeeCampaign[]; // Promotional campaigns the trade may be eligible for
+  baseAsset?: string; // Trade attributes matched against campaign filters
+  quoteAsset?: string;
+  chain?: string;
+  network?: string;
+}
+
+// UPGRADE and DOWNGRADE change the tier now; SCHEDULE_DOWNGRADE starts the grace period
+// and CANCEL_DOWNGRADE ends it when the trader qualifies for their tier again
+export type FeeTierAction =
+  'NONE' | 'UPGRADE' | 'DOWNGRADE' | 'SCHEDULE_DOWNGRADE' | 'CANCEL_DOWNGRADE';
+
+export interface FeeTierDecision {
+  action: FeeTierAction;
+  qualifiedTier: string; // Tier the rolling volume qualifies for
+  downgradeAt: Date | null; // When the pending downgrade takes effect
+}
+
+export interface FeeTierHistoryEntry {
+  id: string;
+  userId: string;
+  oldTier: string;
+  newTier: string;
+  direction: 'UPGRADE' | 'DOWNGRADE';
+  reason: 'TRADE' | 'REVERSAL' | 'SCHEDULED' | 'MANUAL';
+  rollingVolume: Decimal;
+  createdAt: Date;
+}
+
+export interface FeeTierStatusResponse {
+  userId: string;
+  feeTier: string; // Assigned tier
+  downgradeAt: Date | null; // When a pending downgrade takes effect
+  rate: {
+    tradeType: string;
+    liquidityRole: LiquidityRole;
+    baseFeeRate: Decimal; // Schedule rate before discounts and tiers
+    discountedBaseRate: Decimal; // Base rate with the signup discount
+    appliedFeeRate: Decimal; // Rate the next trade is charged
+    tierUsed: string; // Tier behind appliedFeeRate, or BASE, CUSTOM, WAIVED, CAMPAIGN
+    campaignId: string | null; // Campaign behind appliedFeeRate
+    discountApplied: boolean; // appliedFeeRate is the discounted base rate
+  };
+  progress: FeeTierProgress;
+  history: FeeTierHistoryEntry[]; // Newest first
+}
+
+export interface FeeTierEvaluationResult {
+  evaluatedAt: Date;
+  evaluated: number; // Users with volume in the window, a tier above base or a pending downgrade
+  changes: {
+    userId: string;
+    oldTier: string;
+    newTier: string;
+    direction: 'UPGRADE' | 'DOWNGRADE';
+  }[];
+  scheduledDowngrades: { userId: string; tier: string; downgradeAt: Date }[];
+}
+
+export interface FeeTierProgress {
+  rollingVolume: Decimal; // Volume over the fee tier window, in USD
+  currentTier: string | null; // null when the schedule has no active tier and the base rate applies
+  nextTier: string | null; // null at the top tier
+  volumeToNextTier: Decimal | null;
+}
+
+export interface ProductFeeSchedule {
+  baseFeeRate: number; // Taker rate
+  makerFeeRate: number; // Negative for maker rebates
 }
 
 export interface CommissionDistribution {
-  level: number;
+  level: number; // 0 is the referrer's kickback to the trader
   earnerId: string;
   earnerEmail: string;
   amount: Decimal;
   rate: Decimal;
   commissionId: string;
+  planVersion?: number; // Commission plan the rate came from
+  cappedAmount?: Decimal; // Part of the commission withheld by a cap
+  capReason?: CommissionCapReason;
+  dustAmount?: Decimal; // Accrued dust paid out as part of this commission (negative: dust taken back)
+  ambassadorTier?: string; // Earner's ambassador tier applied to the rate
+  tokenType?: string; // Set once the settlement token is resolved
+}
+
+export interface CommissionDistributionOptions {
+  plan?: CommissionPlan; // Rates come from the configured schedule without a plan
+  capping?: { caps: CommissionCaps; accrued: Map<string, AccruedCommissions> };
+  dust?: Map<string, Decimal>; // Earners' dust balances in USD, updated in place; without it sub-minimum amounts are dropped
+  platformShares?: PlatformShare[]; // Collects the shares of skipped ancestors
+}
+
+// Share of a skipped ancestor, booked to platform revenue in the ledger (USD)
+export interface PlatformShare {
+  level: number;
+  skippedUserId: string;
+  amount: Decimal;
+  reason: PlatformShareReason;
+}
+
+export type PlatformShareReason = 'TEAM_MEMBER' | 'REFERRAL_EXPIRED';
+
+// Commission caps, in USD; null or missing means uncapped
+export interface CommissionCaps {
+  perRefereeMonthly?: number | null; // Per earner, from a single referee, per calendar month
+  perEarnerDaily?: number | null; // Per earner, per UTC day
+  perEarnerMonthly?: number | null; // Per earner, per calendar month
+}
+
+export type CommissionCapReason = 'REFEREE_MONTHLY' | 'EARNER_DAILY' | 'EARNER_MONTHLY';
+
+// Ledger posting in USD; debits are positive, credits negative, and the lines sum to zero
+export interface JournalEntryDraft {
+  type: JournalEntryType;
+  tradeId?: string;
+  claimId?: string;
+  lines: JournalLineDraft[];
+}
+
+export interface JournalLineDraft {
+  account: LedgerAccount;
+  userId?: string | null;
+  amount: Decimal;
+  reason?: string;
+}
+
+export interface LedgerIntegrityReport {
+  checkedAt: Date;
+  balanced: boolean; // No unbalanced entries and no discrepancies
+  unbalancedEntries: { entryId: string; type: string; imbalance: Decimal }[];
+  trialBalance: Record<string, Decimal>; // Balance per account; sums to zero
+  discrepancies: {
+    account: LedgerAccount;
+    userId: string;
+    ledgerBalance: Decimal;
+    expectedBalance: Decimal; // From commission, trade and dust records
+  }[];
+}
+
+// Commissions already accrued by an earner in the cap periods of a trade, in USD
+export interface AccruedCommissions {
+  earnerDaily: Decimal;
+  earnerMonthly: Decimal;
+  fromRefereeMonthly: Decimal;
 }
 
 // Error Types
@@ -288,6 +777,9 @@ export type UpdateUserData = Partial<
     | 'customFeeRate'
     | 'customCommissionStructure'
     | 'referralCode'
+    | 'referralExpiresAt'
+    | 'kickbackRate'
+    | 'ambassadorTier'
     | 'totalTradeVolume'
     | 'totalFeesPaid'
     | 'lastActiveAt'
@@ -4,18 +4,42 @@ import {
   Commission,
   Trade,
   FeeCalculationResult,
+  FeeCalculationOptions,
+  LiquidityRole,
   CommissionDistribution,
   CustomCommissionStructure,
+  CommissionPlan,
+  CommissionCaps,
+  CommissionCapReason,
+  AccruedCommissions,
+  CommissionDistributionOptions,
+  AmbassadorTier,
+  AmbassadorMetrics,
   FeeTier,
+  FeeTierProgress,
+  FeeTierDecision,
+  FeeCampaign,
+  FeeCampaignSegment,
+  SettlementConfig,
 } from '../types';
-import { referralConfig, feeTierDefinitions, businessRules } from '../config';
+import {
+  referralConfig,
+  commissionCapConfig,
+  productFeeSchedules,
+  feeTierConfig,
+  feeTierDefinitions,
+  ambassadorTierDefinitions,
+  businessRules,
+  settlementConfig,
+  supportedTokens,
+} from '../config';
 
 /**
  * Commission Calculator - Core business logic for the referral system
  *
  * This class handles all commission calculations including:
  * - Fee tier determination and fee discount application
- * - Multi-level commission distribution (3 levels deep)
+ * - Multi-level commission distribution (configurable depth)
  * - Custom commission structures for KOLs
  * - Special handling for team members and waived fees
  */
@@ -27,12 +51,31 @@ export class CommissionCalculator {
    * 1. Custom fee rate (for special users)
    * 2. Fee tier rate (if better than base + discount)
    * 3. Base rate with signup discount applied
+   *
+   * Base rate and tiers come from the product fee schedule of options.tradeType, using
+   * maker or taker rates per options.liquidityRole. Maker rates may be negative (rebates),
+   * in which case netFeeAmount is negative and no commissions are distributed.
+   *
+   * Trades on the assigned schedule use the trader's assigned tier (user.feeTier), so
+   * the rate matches the tier shown to them. Other schedules, and traders whose assigned
+   * tier is no longer active, qualify on options.rollingVolume, the trader's volume over
+   * the fee tier window (lifetime volume when not given).
+   *
+   * The best of options.campaigns the trade is eligible for replaces the rate when it
+   * is lower, including a custom rate.
+   *
+   * When options.referrer gives a kickback, the part of their level-1 commission
+   * credited back to the trader is split off in kickbackAmount.
    */
   public static calculateEffectiveFeeRate(
     user: User,
     tradeVolume: Decimal,
-    availableFeeTiers: FeeTier[]
+    availableFeeTiers: FeeTier[],
+    options: FeeCalculationOptions = {}
   ): FeeCalculationResult {
+    const feeSchedule = this.resolveFeeSchedule(options.tradeType);
+    const liquidityRole = options.liquidityRole || 'TAKER';
+
     // Team members and waived fee users pay no fees
     if (user.isTeamMember || user.isWaivedFees) {
       return {
@@ -43,83 +86,295 @@ export class CommissionCalculator {
         rebateAmount: new Decimal(0),
         discountApplied: false,
         tierUsed: 'WAIVED',
+        feeSchedule,
+        liquidityRole,
       };
     }
 
     // Use custom fee rate if defined
     if (user.customFeeRate) {
       const feeAmount = tradeVolume.mul(user.customFeeRate);
-      return {
-        originalFeeRate: user.customFeeRate,
-        appliedFeeRate: user.customFeeRate,
-        feeAmount,
-        netFeeAmount: feeAmount,
-        rebateAmount: new Decimal(0),
-        discountApplied: false,
-        tierUsed: 'CUSTOM',
-      };
+      return this.applyKickback(
+        user,
+        options,
+        this.applyCampaign(user, tradeVolume, options, {
+          originalFeeRate: user.customFeeRate,
+          appliedFeeRate: user.customFeeRate,
+          feeAmount,
+          netFeeAmount: feeAmount,
+          rebateAmount: new Decimal(0),
+          discountApplied: false,
+          tierUsed: 'CUSTOM',
+          feeSchedule,
+          liquidityRole,
+        })
+      );
     }
 
     // Determine the best applicable fee tier based on user's volume
-    const baseFeeRate = new Decimal(referralConfig.baseFeeRate);
+    const schedule = productFeeSchedules[feeSchedule];
+    const baseFeeRate = new Decimal(
+      liquidityRole === 'MAKER' ? schedule.makerFeeRate : schedule.baseFeeRate
+    );
     const applicableTiers = availableFeeTiers
-      .filter((tier) => tier.isActive)
+      .filter((tier) => tier.isActive && tier.tradeType === feeSchedule)
       .sort((a, b) => b.priority - a.priority); // Higher priority first
 
-    let bestTier: FeeTier | null = null;
-    for (const tier of applicableTiers) {
-      if (user.totalTradeVolume.gte(tier.minimumVolume)) {
-        bestTier = tier;
-        break;
+    const assignedTier =
+      feeSchedule === feeTierConfig.assignedTradeType
+        ? applicableTiers.find((tier) => tier.name === user.feeTier)
+        : undefined;
+    const qualifyingVolume = options.rollingVolume ?? user.totalTradeVolume;
+    let bestTier: FeeTier | null = assignedTier || null;
+    if (!assignedTier) {
+      for (const tier of applicableTiers) {
+        if (qualifyingVolume.gte(tier.minimumVolume)) {
+          bestTier = tier;
+          break;
+        }
       }
     }
 
-    // Calculate base rate with signup discount
-    const discountedBaseRate = baseFeeRate.mul(new Decimal(1).sub(user.feeDiscountRate));
+    const feeDiscountRate = this.getSignupDiscountRate(user, options.at ?? new Date());
+    const discountedBaseRate = this.getDiscountedBaseRate(user, baseFeeRate, options.at);
+    const tierRate = bestTier ? this.getTierFeeRate(bestTier, liquidityRole) : null;
 
     // Use the better rate between tier rate and discounted base rate
     let effectiveRate: Decimal;
     let tierUsed: string;
     let discountApplied = false;
 
-    if (bestTier && bestTier.feeRate.lt(discountedBaseRate)) {
+    if (bestTier && tierRate && tierRate.lt(discountedBaseRate)) {
       // Fee tier is better than discounted base rate
-      effectiveRate = bestTier.feeRate;
+      effectiveRate = tierRate;
       tierUsed = bestTier.name;
     } else {
       // Use discounted base rate
       effectiveRate = discountedBaseRate;
       tierUsed = 'BASE';
-      discountApplied = user.feeDiscountRate.gt(0);
+      discountApplied = baseFeeRate.gt(0) && feeDiscountRate.gt(0);
     }
 
     const feeAmount = tradeVolume.mul(baseFeeRate); // Always charge base rate initially
     const netFeeAmount = tradeVolume.mul(effectiveRate);
     const rebateAmount = feeAmount.sub(netFeeAmount);
 
+    return this.applyKickback(
+      user,
+      options,
+      this.applyCampaign(user, tradeVolume, options, {
+        originalFeeRate: baseFeeRate,
+        appliedFeeRate: effectiveRate,
+        feeAmount,
+        netFeeAmount,
+        rebateAmount,
+        discountApplied,
+        tierUsed,
+        feeSchedule,
+        liquidityRole,
+      })
+    );
+  }
+
+  /**
+   * Charge the lowest rate of the campaigns the trade is eligible for, when it beats
+   * the rate the trader would pay otherwise
+   *
+   * Discounts only lower positive rates; maker rebates are left alone.
+   */
+  private static applyCampaign(
+    user: User,
+    tradeVolume: Decimal,
+    options: FeeCalculationOptions,
+    result: FeeCalculationResult
+  ): FeeCalculationResult {
+    const at = options.at ?? new Date();
+    let best: { campaign: FeeCampaign; rate: Decimal } | null = null;
+
+    for (const campaign of options.campaigns || []) {
+      if (!this.isCampaignEligible(campaign, user, options, at)) continue;
+
+      const rate = this.getCampaignFeeRate(campaign, result.appliedFeeRate);
+      if (
+        rate.lt(result.appliedFeeRate) &&
+        (!best ||
+          rate.lt(best.rate) ||
+          (rate.eq(best.rate) && campaign.endsAt < best.campaign.endsAt))
+      ) {
+        best = { campaign, rate };
+      }
+    }
+
+    if (!best) {
+      return result;
+    }
+
+    const netFeeAmount = tradeVolume.mul(best.rate);
     return {
-      originalFeeRate: baseFeeRate,
-      appliedFeeRate: effectiveRate,
-      feeAmount,
+      ...result,
+      appliedFeeRate: best.rate,
       netFeeAmount,
-      rebateAmount,
-      discountApplied,
-      tierUsed,
+      rebateAmount: result.feeAmount.sub(netFeeAmount),
+      discountApplied: false,
+      tierUsed: 'CAMPAIGN',
+      campaignId: best.campaign.id,
     };
   }
 
+  /**
+   * Rate a campaign charges instead of the trader's rate
+   */
+  private static getCampaignFeeRate(campaign: FeeCampaign, rate: Decimal): Decimal {
+    if (campaign.overrideRate !== undefined && campaign.overrideRate !== null) {
+      return Decimal.min(rate, campaign.overrideRate.toString());
+    }
+    if (campaign.discountRate && rate.gt(0)) {
+      return rate.mul(new Decimal(1).sub(campaign.discountRate.toString()));
+    }
+    return rate;
+  }
+
+  /**
+   * Whether a trade qualifies for a campaign: the campaign is running and the trade
+   * and trader match every filter it sets
+   */
+  public static isCampaignEligible(
+    campaign: FeeCampaign,
+    user: User,
+    options: FeeCalculationOptions,
+    at: Date
+  ): boolean {
+    const matches = (allowed: string[], value?: string) =>
+      allowed.length === 0 || (value !== undefined && allowed.includes(value));
+    const segments: FeeCampaignSegment[] = [
+      user.referrerId ? 'REFERRED' : 'UNREFERRED',
+      ...(user.ambassadorTier ? (['AMBASSADOR'] as const) : []),
+    ];
+
+    return (
+      campaign.isActive &&
+      campaign.startsAt <= at &&
+      at < campaign.endsAt &&
+      (campaign.assets.length === 0 ||
+        [options.baseAsset, options.quoteAsset].some(
+          (asset) => asset !== undefined && campaign.assets.includes(asset)
+        )) &&
+      matches(campaign.networks, options.network) &&
+      matches(campaign.chains, options.chain) &&
+      matches(campaign.tradeTypes, this.resolveFeeSchedule(options.tradeType)) &&
+      (campaign.userSegments.length === 0 ||
+        segments.some((segment) => campaign.userSegments.includes(segment))) &&
+      (!campaign.signedUpFrom || user.createdAt >= campaign.signedUpFrom) &&
+      (!campaign.signedUpTo || user.createdAt < campaign.signedUpTo)
+    );
+  }
+
+  /**
+   * Split the referrer's kickback off their level-1 commission on the net fee
+   *
+   * Kickbacks below the minimum commission amount are not paid; the referrer
+   * keeps the full commission.
+   */
+  private static applyKickback(
+    trader: User,
+    options: FeeCalculationOptions,
+    result: FeeCalculationResult
+  ): FeeCalculationResult {
+    const referrer = options.referrer;
+    const kickbackRate = new Decimal(referrer?.kickbackRate?.toString() || 0);
+
+    if (
+      !referrer ||
+      referrer.isTeamMember ||
+      kickbackRate.lte(0) ||
+      result.netFeeAmount.lte(0) ||
+      !this.isEarningWindowOpen(trader, referrer, options.at ?? new Date())
+    ) {
+      return result;
+    }
+
+    const levelRates = options.levelRates || referralConfig.levelRates;
+    const referrerCommission = result.netFeeAmount.mul(
+      this.getCommissionRate(referrer, 1, levelRates)
+    );
+    const kickbackAmount = referrerCommission.mul(kickbackRate);
+
+    if (kickbackAmount.lt(businessRules.minimumCommissionAmount)) {
+      return result;
+    }
+
+    return {
+      ...result,
+      kickbackAmount,
+      referrerCommissionAmount: referrerCommission.sub(kickbackAmount),
+    };
+  }
+
+  /**
+   * Get a tier's rate for the liquidity role (maker falls back to the taker rate)
+   */
+  private static getTierFeeRate(tier: FeeTier, liquidityRole: LiquidityRole): Decimal {
+    if (
+      liquidityRole === 'MAKER' &&
+      tier.makerFeeRate !== undefined &&
+      tier.makerFeeRate !== null
+    ) {
+      return new Decimal(tier.makerFeeRate.toString());
+    }
+    return new Decimal(tier.feeRate.toString());
+  }
+
+  /**
+   * Base rate with the trader's signup discount applied (rebates are not discounted)
+   */
+  public static getDiscountedBaseRate(user: User, baseFeeRate: Decimal, at?: Date): Decimal {
+    return baseFeeRate.gt(0)
+      ? baseFeeRate.mul(new Decimal(1).sub(this.getSignupDiscountRate(user, at ?? new Date())))
+      : baseFeeRate;
+  }
+
+  /**
+   * Trader's signup discount, which lapses together with the referral
+   */
+  private static getSignupDiscountRate(user: User, at: Date): Decimal {
+    return this.isReferralActive(user, at) ? user.feeDiscountRate : new Decimal(0);
+  }
+
+  /**
+   * Resolve the product fee schedule for a trade type (SPOT when unknown)
+   */
+  private static resolveFeeSchedule(tradeType?: string): string {
+    return tradeType && productFeeSchedules[tradeType] ? tradeType : 'SPOT';
+  }
+
   /**
    * Calculate commission distribution for a trade across the referral network
    *
-   * Traverses up to 3 levels of the referral chain and calculates commissions
-   * based on standard rates or custom commission structures.
+   * Traverses the referral chain up to the configured depth and calculates commissions
+   * based on the commission plan (the configured schedule when none is given) or
+   * custom commission structures.
+   *
+   * Options:
+   * - capping: each commission is reduced to the room left under the earner's caps
+   * - dust: amounts below the minimum accrue to the earner's dust balance, which is
+   *   paid out with the first commission that takes it over the minimum, as far as
+   *   the caps leave room for it; the rest stays in the balance. A negative balance
+   *   is taken back from the next commission.
+   * - platformShares: collects the shares of team members and of ancestors whose
+   *   earning window has ended
+   *
+   * A kickback split off in the fee calculation is distributed to the trader at level 0,
+   * capped together with the referrer's commission it comes out of.
    */
   public static async calculateCommissionDistribution(
     trade: Trade,
     trader: User,
     referralChain: User[],
-    feeCalculationResult: FeeCalculationResult
+    feeCalculationResult: FeeCalculationResult,
+    options: CommissionDistributionOptions = {}
   ): Promise<CommissionDistribution[]> {
+    const { plan, capping, dust, platformShares } = options;
+    const levelRates = plan ? plan.levelRates : referralConfig.levelRates;
     const distributions: CommissionDistribution[] = [];
     const netFeeAmount = feeCalculationResult.netFeeAmount;
 
@@ -134,72 +389,253 @@ export class CommissionCalculator {
       level++
     ) {
       const referrer = referralChain[level - 1];
+      const commissionRate = this.getCommissionRate(referrer, level, levelRates);
+      const commissionAmount = netFeeAmount.mul(commissionRate);
 
-      // Skip team members as they don't earn commissions
-      if (referrer.isTeamMember) {
+      if (commissionAmount.lte(0)) {
         continue;
       }
 
-      const commissionRate = this.getCommissionRate(referrer, level);
-      const commissionAmount = netFeeAmount.mul(commissionRate);
-
-      // Only create commission if amount meets minimum threshold
-      if (commissionAmount.gte(businessRules.minimumCommissionAmount)) {
-        distributions.push({
+      // Team members and ancestors whose earning window has ended don't earn
+      // commissions; skipped shares go to the platform
+      if (referrer.isTeamMember || !this.isEarningWindowOpen(trader, referrer, trade.createdAt)) {
+        platformShares?.push({
           level,
-          earnerId: referrer.id,
-          earnerEmail: referrer.email,
+          skippedUserId: referrer.id,
           amount: commissionAmount,
-          rate: commissionRate,
+          reason: referrer.isTeamMember ? 'TEAM_MEMBER' : 'REFERRAL_EXPIRED',
+        });
+        continue;
+      }
+
+      // Caps apply to the referrer's whole share, kickback included
+      const capRoom = capping && this.getCapRoom(capping.caps, capping.accrued.get(referrer.id));
+      const payable = capRoom ? Decimal.min(commissionAmount, capRoom.room) : commissionAmount;
+      const capReason = payable.lt(commissionAmount) ? capRoom?.reason : undefined;
+
+      let amount = payable;
+      let cappedAmount = commissionAmount.sub(payable);
+      let dustAmount: Decimal | undefined;
+
+      // The referrer's kickback is credited to the trader as a level-0 commission,
+      // cut back in proportion when the referrer is capped
+      const kickbackAmount = feeCalculationResult.kickbackAmount;
+      if (level === 1 && kickbackAmount && kickbackAmount.gt(0)) {
+        const kickback = kickbackAmount.mul(payable).div(commissionAmount);
+        amount = amount.sub(kickback);
+        distributions.push({
+          level: 0,
+          earnerId: trader.id,
+          earnerEmail: trader.email,
+          amount: kickback,
+          rate: commissionRate.mul(kickbackAmount).div(commissionAmount),
           commissionId: '', // Will be set when commission is created
+          planVersion: plan?.version,
+          ...(capReason && { cappedAmount: kickbackAmount.sub(kickback), capReason }),
         });
+        cappedAmount = commissionAmount.sub(kickbackAmount).sub(amount);
       }
+
+      if (dust) {
+        const balance = dust.get(referrer.id) || new Decimal(0);
+
+        // Dust is only paid out of the room the commission leaves under the caps. A
+        // negative balance, left by voiding a trade whose dust was already paid out,
+        // is taken back from the commission instead.
+        let release = balance;
+        if (balance.lt(0)) {
+          release = Decimal.max(balance, amount.neg());
+        } else if (capRoom) {
+          release = Decimal.min(balance, capRoom.room.sub(payable));
+        }
+
+        // Accrue until the balance crosses the minimum, then pay it out
+        if (!capReason && amount.add(release).lt(businessRules.minimumCommissionAmount)) {
+          dust.set(referrer.id, balance.add(amount));
+          continue;
+        }
+
+        if (!release.isZero()) {
+          dustAmount = release;
+          amount = amount.add(release);
+          dust.set(referrer.id, balance.sub(release));
+        }
+      } else if (!capReason && amount.lt(businessRules.minimumCommissionAmount)) {
+        // Without dust tracking, only create commissions that meet the minimum threshold
+        continue;
+      }
+
+      // Capped commissions are kept, even at zero, so the withheld amount is on record
+      const distribution: CommissionDistribution = {
+        level,
+        earnerId: referrer.id,
+        earnerEmail: referrer.email,
+        amount,
+        rate: commissionRate,
+        commissionId: '', // Will be set when commission is created
+        planVersion: plan?.version,
+        dustAmount,
+        ambassadorTier: this.getAmbassadorTier(referrer)?.name,
+        ...(capReason && { cappedAmount, capReason }),
+      };
+
+      distributions.push(distribution);
     }
 
     return distributions;
   }
 
+  /**
+   * Resolve the commission caps in force under a plan (plan caps override the defaults)
+   */
+  public static resolveCommissionCaps(plan?: CommissionPlan): CommissionCaps {
+    return { ...commissionCapConfig, ...(plan?.caps ?? {}) };
+  }
+
+  /**
+   * Whether any cap is configured
+   */
+  public static hasCommissionCaps(caps: CommissionCaps): boolean {
+    return Object.values(caps).some((cap) => cap !== null && cap !== undefined);
+  }
+
+  /**
+   * Room left under the earner's tightest cap, or undefined when uncapped
+   */
+  private static getCapRoom(
+    caps: CommissionCaps,
+    accrued?: AccruedCommissions
+  ): { room: Decimal; reason: CommissionCapReason } | undefined {
+    const limits: [CommissionCapReason, number | null | undefined, Decimal | undefined][] = [
+      ['REFEREE_MONTHLY', caps.perRefereeMonthly, accrued?.fromRefereeMonthly],
+      ['EARNER_DAILY', caps.perEarnerDaily, accrued?.earnerDaily],
+      ['EARNER_MONTHLY', caps.perEarnerMonthly, accrued?.earnerMonthly],
+    ];
+
+    let tightest: { room: Decimal; reason: CommissionCapReason } | undefined;
+    for (const [reason, cap, accruedAmount] of limits) {
+      if (cap === null || cap === undefined) {
+        continue;
+      }
+
+      const room = Decimal.max(new Decimal(cap).sub(accruedAmount ?? 0), 0);
+      if (!tightest || room.lt(tightest.room)) {
+        tightest = { room, reason };
+      }
+    }
+
+    return tightest;
+  }
+
   /**
    * Get the commission rate for a specific referrer at a given level
    *
    * Considers custom commission structures for KOLs and special users
    */
-  private static getCommissionRate(referrer: User, level: number): Decimal {
+  private static getCommissionRate(
+    referrer: User,
+    level: number,
+    levelRates: (Decimal | number)[]
+  ): Decimal {
     // Check for custom commission structure
     if (referrer.customCommissionStructure) {
-      return this.getCustomCommissionRate(referrer.customCommissionStructure, level);
+      return this.getCustomCommissionRate(referrer.customCommissionStructure, level, levelRates);
     }
 
-    // Use standard rates
-    switch (level) {
-      case 1:
-        return new Decimal(referralConfig.rates.level1);
-      case 2:
-        return new Decimal(referralConfig.rates.level2);
-      case 3:
-        return new Decimal(referralConfig.rates.level3);
-      default:
-        return new Decimal(0);
+    // Use standard rates; levels beyond the schedule earn nothing
+    const rate = new Decimal(levelRates[level - 1] ?? 0);
+
+    // Ambassador tiers raise the standard rate, never lower it
+    const tierRate = this.getAmbassadorTier(referrer)?.levelRates[level - 1];
+    return tierRate !== undefined && rate.lt(tierRate) ? new Decimal(tierRate) : rate;
+  }
+
+  /**
+   * Ambassador tier applied to a referrer's standard rates, if any
+   */
+  private static getAmbassadorTier(referrer: User): AmbassadorTier | undefined {
+    if (!referrer.ambassadorTier || referrer.customCommissionStructure) {
+      return undefined;
     }
+    return ambassadorTierDefinitions.find((tier) => tier.name === referrer.ambassadorTier);
+  }
+
+  /**
+   * Determine the highest ambassador tier a referrer qualifies for, or null
+   *
+   * A tier is reached on either network volume or active referee count.
+   */
+  public static determineAmbassadorTier(
+    metrics: AmbassadorMetrics,
+    tiers: AmbassadorTier[] = ambassadorTierDefinitions
+  ): string | null {
+    let qualified: string | null = null;
+    for (const tier of tiers) {
+      if (
+        metrics.networkVolume.gte(tier.minNetworkVolume) ||
+        metrics.activeReferees >= tier.minActiveReferees
+      ) {
+        qualified = tier.name;
+      }
+    }
+    return qualified;
   }
 
   /**
    * Get commission rate from custom commission structure
+   *
+   * Levels the structure doesn't set fall back to the standard schedule.
    */
   private static getCustomCommissionRate(
     customStructure: CustomCommissionStructure,
-    level: number
+    level: number,
+    levelRates: (Decimal | number)[]
   ): Decimal {
-    switch (level) {
-      case 1:
-        return new Decimal(customStructure.level1Rate ?? referralConfig.rates.level1);
-      case 2:
-        return new Decimal(customStructure.level2Rate ?? referralConfig.rates.level2);
-      case 3:
-        return new Decimal(customStructure.level3Rate ?? referralConfig.rates.level3);
-      default:
-        return new Decimal(0);
+    // Structures stored before levelRates existed only carry level1Rate..level3Rate
+    const legacyRates = [
+      customStructure.level1Rate,
+      customStructure.level2Rate,
+      customStructure.level3Rate,
+    ];
+
+    return new Decimal(
+      customStructure.levelRates?.[level - 1] ??
+        legacyRates[level - 1] ??
+        levelRates[level - 1] ??
+        0
+    );
+  }
+
+  /**
+   * Calculate when a referee's earning window ends for an ancestor, per the ancestor's program
+   *
+   * Returns null when the program's referrals never expire.
+   */
+  public static calculateReferralExpiry(referrer: User, signedUpAt: Date): Date | null {
+    const windowDays =
+      referrer.customCommissionStructure?.earningWindowDays ?? referralConfig.earningWindowDays;
+    if (!windowDays || windowDays <= 0) {
+      return null;
     }
+
+    return new Date(signedUpAt.getTime() + windowDays * 24 * 60 * 60 * 1000);
+  }
+
+  /**
+   * Whether a referee's referral, and with it the signup discount, is still active
+   */
+  public static isReferralActive(user: User, at: Date): boolean {
+    return !user.referralExpiresAt || at < user.referralExpiresAt;
+  }
+
+  /**
+   * Whether an ancestor still earns on a referee's trades at a point in time
+   *
+   * Each ancestor's window runs from the referee's signup, per that ancestor's program.
+   */
+  public static isEarningWindowOpen(referee: User, ancestor: User, at: Date): boolean {
+    const expiresAt = this.calculateReferralExpiry(ancestor, referee.createdAt);
+    return !expiresAt || at < expiresAt;
   }
 
   /**
@@ -269,14 +705,16 @@ export class CommissionCalculator {
   /**
    * Calculate the optimal fee tier for a user based on their trading volume
    *
-   * Used for automatically upgrading users to better fee tiers
+   * Used for automatically upgrading users to better fee tiers. Undefined when the
+   * schedule has no active tier.
    */
   public static calculateOptimalFeeTier(
     userVolume: Decimal,
-    availableFeeTiers: FeeTier[]
-  ): FeeTier {
+    availableFeeTiers: FeeTier[],
+    tradeType: string = 'SPOT'
+  ): FeeTier | undefined {
     const activeTiers = availableFeeTiers
-      .filter((tier) => tier.isActive)
+      .filter((tier) => tier.isActive && tier.tradeType === tradeType)
       .sort((a, b) => b.priority - a.priority); // Higher priority first
 
     for (const tier of activeTiers) {
@@ -289,6 +727,198 @@ export class CommissionCalculator {
     return activeTiers.find((tier) => tier.name === 'BASE') || activeTiers[0];
   }
 
+  /**
+   * Check the active tiers of each fee schedule for consistency
+   *
+   * Every schedule, including the given trade types even when none of their tiers is
+   * active, must keep its BASE tier active. Within a schedule no two tiers may share
+   * a priority, and a higher priority must take a higher minimum volume and charge a
+   * lower taker rate. Maker rates may stay flat but must not rise. Returns one
+   * message per violation.
+   */
+  public static validateFeeTierSchedule(
+    availableFeeTiers: FeeTier[],
+    tradeTypes: string[] = []
+  ): string[] {
+    const violations: string[] = [];
+    const schedules = new Map<string, FeeTier[]>(tradeTypes.map((tradeType) => [tradeType, []]));
+    for (const tier of availableFeeTiers.filter((tier) => tier.isActive)) {
+      schedules.set(tier.tradeType, [...(schedules.get(tier.tradeType) || []), tier]);
+    }
+
+    for (const [tradeType, tiers] of schedules) {
+      // Traders below every threshold fall back to the BASE tier
+      if (!tiers.some((tier) => tier.name === 'BASE')) {
+        violations.push(`${tradeType}: the BASE tier must stay active`);
+      }
+
+      const sorted = [...tiers].sort((a, b) => a.priority - b.priority);
+
+      for (let i = 1; i < sorted.length; i++) {
+        const lower = sorted[i - 1];
+        const higher = sorted[i];
+        const pair = `${tradeType} ${lower.name} and ${higher.name}`;
+
+        if (lower.priority === higher.priority) {
+          violations.push(`${pair} share priority ${higher.priority}`);
+          continue;
+        }
+        if (new Decimal(higher.minimumVolume).lte(lower.minimumVolume)) {
+          violations.push(`${pair}: minimum volume must increase with priority`);
+        }
+        if (this.getTierFeeRate(higher, 'TAKER').gte(this.getTierFeeRate(lower, 'TAKER'))) {
+          violations.push(`${pair}: fee rate must decrease as priority increases`);
+        }
+        if (this.getTierFeeRate(higher, 'MAKER').gt(this.getTierFeeRate(lower, 'MAKER'))) {
+          violations.push(`${pair}: maker fee rate must not increase with priority`);
+        }
+      }
+    }
+
+    return violations;
+  }
+
+  /**
+   * Work out a trader's fee tier and the volume they still need for the next one
+   */
+  public static calculateFeeTierProgress(
+    rollingVolume: Decimal,
+    availableFeeTiers: FeeTier[],
+    tradeType: string = 'SPOT'
+  ): FeeTierProgress {
+    const currentTier = this.calculateOptimalFeeTier(rollingVolume, availableFeeTiers, tradeType);
+
+    // The next tier is the closest one above the trader's volume
+    const nextTier = availableFeeTiers
+      .filter(
+        (tier) =>
+          tier.isActive && tier.tradeType === tradeType && rollingVolume.lt(tier.minimumVolume)
+      )
+      .sort(
+        (a, b) => new Decimal(a.minimumVolume).cmp(b.minimumVolume) || b.priority - a.priority
+      )[0];
+
+    return {
+      rollingVolume,
+      currentTier: currentTier ? currentTier.name : null,
+      nextTier: nextTier ? nextTier.name : null,
+      volumeToNextTier: nextTier ? new Decimal(nextTier.minimumVolume).sub(rollingVolume) : null,
+    };
+  }
+
+  /**
+   * Decide how a trader's assigned fee tier changes given their rolling volume
+   *
+   * Upgrades apply at once. A downgrade is scheduled graceDays ahead and applied once
+   * that date has passed, unless the trader qualifies for their tier again in the
+   * meantime. An assigned tier that is no longer active is replaced at once.
+   */
+  public static evaluateFeeTier(
+    user: Pick<User, 'feeTier' | 'feeTierDowngradeAt'>,
+    rollingVolume: Decimal,
+    availableFeeTiers: FeeTier[],
+    at: Date,
+    graceDays: number = feeTierConfig.downgradeGraceDays
+  ): FeeTierDecision {
+    const tradeType = feeTierConfig.assignedTradeType;
+    const qualified = this.calculateOptimalFeeTier(rollingVolume, availableFeeTiers, tradeType);
+    const current = availableFeeTiers.find(
+      (tier) => tier.tradeType === tradeType && tier.name === user.feeTier
+    );
+    const pendingDowngradeAt = user.feeTierDowngradeAt || null;
+
+    if (!qualified) {
+      return { action: 'NONE', qualifiedTier: user.feeTier, downgradeAt: pendingDowngradeAt };
+    }
+
+    if (!current || !current.isActive) {
+      const downgrade = current !== undefined && qualified.priority < current.priority;
+      return {
+        action: downgrade ? 'DOWNGRADE' : 'UPGRADE',
+        qualifiedTier: qualified.name,
+        downgradeAt: null,
+      };
+    }
+
+    if (qualified.priority > current.priority) {
+      return { action: 'UPGRADE', qualifiedTier: qualified.name, downgradeAt: null };
+    }
+
+    if (qualified.priority === current.priority) {
+      return {
+        action: pendingDowngradeAt ? 'CANCEL_DOWNGRADE' : 'NONE',
+        qualifiedTier: qualified.name,
+        downgradeAt: null,
+      };
+    }
+
+    if (!pendingDowngradeAt) {
+      const downgradeAt = new Date(at.getTime() + graceDays * 24 * 60 * 60 * 1000);
+      return {
+        action: downgradeAt <= at ? 'DOWNGRADE' : 'SCHEDULE_DOWNGRADE',
+        qualifiedTier: qualified.name,
+        downgradeAt: downgradeAt <= at ? null : downgradeAt,
+      };
+    }
+
+    return pendingDowngradeAt <= at
+      ? { action: 'DOWNGRADE', qualifiedTier: qualified.name, downgradeAt: null }
+      : { action: 'NONE', qualifiedTier: qualified.name, downgradeAt: pendingDowngradeAt };
+  }
+
+  /**
+   * UTC day a trade's volume is rolled up under
+   */
+  public static getVolumeDay(at: Date): Date {
+    return new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), at.getUTCDate()));
+  }
+
+  /**
+   * First UTC day of the rolling fee tier volume window that ends on the day of `at`
+   */
+  public static getVolumeWindowStart(
+    at: Date,
+    windowDays: number = feeTierConfig.volumeWindowDays
+  ): Date {
+    const start = this.getVolumeDay(at);
+    start.setUTCDate(start.getUTCDate() - (windowDays - 1));
+    return start;
+  }
+
+  /**
+   * Select the commission plan in effect at a point in time
+   *
+   * Plans apply from effectiveFrom (inclusive) to effectiveTo (exclusive); the
+   * latest version wins should two plans overlap.
+   */
+  public static selectCommissionPlan(plans: CommissionPlan[], at: Date): CommissionPlan | null {
+    const effectivePlans = plans
+      .filter((plan) => plan.effectiveFrom <= at && (!plan.effectiveTo || plan.effectiveTo > at))
+      .sort((a, b) => b.version - a.version);
+
+    return effectivePlans[0] || null;
+  }
+
+  /**
+   * Select the token commissions for a trade are paid in, per the settlement policy
+   */
+  public static selectSettlementToken(
+    quoteAsset: string,
+    network: string,
+    settlement: SettlementConfig = settlementConfig
+  ): string {
+    switch (settlement.policy) {
+      case 'QUOTE_ASSET':
+        return (supportedTokens as readonly string[]).includes(quoteAsset)
+          ? quoteAsset
+          : settlement.settlementToken;
+      case 'NETWORK_DEFAULT':
+        return settlement.networkDefaults[network] || settlement.settlementToken;
+      default:
+        return settlement.settlementToken;
+    }
+  }
+
   /**
    * Calculate commission earnings breakdown by time period
    *
@@ -306,10 +936,14 @@ export class CommissionCalculator {
     earningsByToken: Record<string, Decimal>;
     earningsByPeriod: { date: string; amount: Decimal }[];
   } {
+    // Voided (reversed trades) and pending (unsettled trades) commissions are not earnings
+    let filteredCommissions = commissions.filter(
+      (commission) => commission.status !== 'VOIDED' && commission.status !== 'PENDING'
+    );
+
     // Filter commissions by date range
-    let filteredCommissions = commissions;
     if (startDate || endDate) {
-      filteredCommissions = commissions.filter((commission) => {
+      filteredCommissions = filteredCommissions.filter((commission) => {
         const commissionDate = commission.createdAt;
         if (startDate && commissionDate < startDate) return false;
         if (endDate && commissionDate > endDate) return false;
@@ -328,9 +962,9 @@ export class CommissionCalculator {
 
     const unclaimedEarnings = totalEarnings.sub(claimedEarnings);
 
-    // Breakdown by level
+    // Breakdown by level; level 0 holds the kickbacks received from the referrer
     const earningsByLevel: Record<number, Decimal> = {};
-    for (let level = 1; level <= 3; level++) {
+    for (let level = 0; level <= businessRules.maxReferralDepth; level++) {
       earningsByLevel[level] = filteredCommissions
         .filter((commission) => commission.commissionLevel === level)
         .reduce((sum, commission) => sum.add(commission.amount), new Decimal(0));
@@ -1,3 +1,4 @@
+import crypto from 'crypto';
 import { v4 as uuidv4 } from 'uuid';
 import { Decimal } from 'decimal.js';
 import bcrypt from 'bcryptjs';
@@ -128,6 +129,48 @@ export class TokenUtils {
   }
 }
 
+/**
+ * Webhook Signature Utilities
+ */
+export class WebhookSignatureUtils {
+  /**
+   * Sign a webhook payload
+   * Signature format: hex(HMAC-SHA256(secret, "<timestamp>.<nonce>.<rawBody>"))
+   */
+  public static sign(
+    secret: string,
+    timestamp: string,
+    nonce: string,
+    rawBody: string | Buffer
+  ): string {
+    return crypto
+      .createHmac('sha256', secret)
+      .update(`${timestamp}.${nonce}.`)
+      .update(rawBody)
+      .digest('hex');
+  }
+
+  /**
+   * Verify a webhook signature in constant time
+   */
+  public static verify(
+    secret: string,
+    timestamp: string,
+    nonce: string,
+    rawBody: string | Buffer,
+    signature: string
+  ): boolean {
+    const expected = Buffer.from(this.sign(secret, timestamp, nonce, rawBody), 'hex');
+    const provided = Buffer.from(signature, 'hex');
+
+    if (provided.length !== expected.length) {
+      return false;
+    }
+
+    return crypto.timingSafeEqual(provided, expected);
+  }
+}
+
 /**
  * Decimal Utilities for Financial Calculations
  */
@@ -445,3 +488,29 @@ export class UuidUtils {
     return uuidRegex.test(uuid);
   }
 }
+
+/**
+ * Idempotency Utilities
+ */
+export class IdempotencyUtils {
+  /**
+   * Build the idempotency key for an incoming trade
+   * Prefers the upstream trade ID, falls back to chain + network + transaction hash
+   */
+  public static buildTradeKey(trade: {
+    externalTradeId?: string;
+    chain: string;
+    network: string;
+    transactionHash?: string;
+  }): string | null {
+    if (trade.externalTradeId) {
+      return `ext:${trade.externalTradeId}`;
+    }
+
+    if (trade.transactionHash) {
+      return `tx:${trade.chain}:${trade.network}:${trade.transactionHash}`;
+    }
+
+    return null;
+  }
+}
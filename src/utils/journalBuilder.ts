@@ -0,0 +1,269 @@
+import { Decimal } from 'decimal.js';
+import {
+  Commission,
+  Trade,
+  CommissionStatus,
+  JournalEntryDraft,
+  JournalEntryType,
+  JournalLineDraft,
+  LedgerAccount,
+  PlatformShare,
+} from '../types';
+import { DecimalUtils } from './helpers';
+
+/**
+ * Decimal places of journal line amounts as stored
+ */
+const LINE_PRECISION = 12;
+
+/**
+ * Journal Builder - Turns trade, commission and claim events into ledger postings
+ *
+ * Every entry is in USD and balanced: the fee charged to a trader is split into
+ * rebates, commissions, dust and platform revenue, and later events move amounts
+ * between those accounts. Platform revenue takes whatever the other lines leave,
+ * so rounding differences stay with the platform.
+ */
+export class JournalBuilder {
+  /**
+   * Post a trade: the fee charged to the trader and where it went
+   *
+   * dustChanges holds the change of each earner's dust balance caused by the trade
+   * (accrued minus paid out).
+   */
+  public static buildTradeEntry(
+    trade: Trade,
+    commissions: Commission[],
+    dustChanges: Map<string, Decimal>,
+    platformShares: PlatformShare[]
+  ): JournalEntryDraft {
+    const lines: JournalLineDraft[] = [
+      {
+        account: LedgerAccount.TRADER_FEES,
+        userId: trade.userId,
+        amount: new Decimal(trade.feeAmount.toString()),
+      },
+      {
+        account: LedgerAccount.TRADER_REBATES,
+        userId: trade.userId,
+        amount: new Decimal(trade.rebateAmount.toString()).neg(),
+      },
+      ...commissions.map((commission) => this.commissionLine(commission)),
+      ...Array.from(dustChanges, ([earnerId, change]) => ({
+        account: LedgerAccount.COMMISSION_DUST,
+        userId: earnerId,
+        amount: change.neg(),
+      })),
+      ...platformShares.map((share) => ({
+        account: LedgerAccount.PLATFORM_REVENUE,
+        amount: share.amount.neg(),
+        reason: share.reason,
+      })),
+    ];
+
+    return {
+      type: JournalEntryType.TRADE,
+      tradeId: trade.id,
+      lines: this.withPlatformRevenue(lines, 'RETAINED'),
+    };
+  }
+
+  /**
+   * Post the settlement of a pending trade: its commissions become claimable
+   */
+  public static buildSettlementEntry(
+    tradeId: string,
+    commissions: Commission[]
+  ): JournalEntryDraft {
+    const lines = commissions.flatMap((commission) => {
+      const amount = this.getCommissionUsdAmount(commission);
+      return [
+        { account: LedgerAccount.COMMISSIONS_PENDING, userId: commission.earnerId, amount },
+        {
+          account: LedgerAccount.COMMISSIONS_PAYABLE,
+          userId: commission.earnerId,
+          amount: amount.neg(),
+        },
+      ];
+    });
+
+    return {
+      type: JournalEntryType.TRADE_SETTLEMENT,
+      tradeId,
+      lines: this.withoutZeroLines(lines),
+    };
+  }
+
+  /**
+   * Post a reversed or failed trade: the fee is refunded, voided commissions are
+   * taken back (with the dust they paid out returned to the dust balances), the dust
+   * the trade accrued is taken back and clawbacks are charged to the earners
+   *
+   * dustAccruals holds what the trade added to each earner's dust balance.
+   */
+  public static buildVoidEntry(
+    type: JournalEntryType.TRADE_REVERSAL | JournalEntryType.TRADE_FAILURE,
+    trade: Trade,
+    voidedCommissions: Commission[],
+    clawbacks: Commission[],
+    dustAccruals: Map<string, Decimal>
+  ): JournalEntryDraft {
+    const lines: JournalLineDraft[] = [
+      {
+        account: LedgerAccount.TRADER_FEES,
+        userId: trade.userId,
+        amount: new Decimal(trade.feeAmount.toString()).neg(),
+      },
+      {
+        account: LedgerAccount.TRADER_REBATES,
+        userId: trade.userId,
+        amount: new Decimal(trade.rebateAmount.toString()),
+      },
+      ...voidedCommissions.flatMap((commission) => [
+        { ...this.commissionLine(commission), amount: this.getCommissionUsdAmount(commission) },
+        {
+          account: LedgerAccount.COMMISSION_DUST,
+          userId: commission.earnerId,
+          amount: this.getDustUsdAmount(commission).neg(),
+        },
+      ]),
+      ...Array.from(dustAccruals, ([earnerId, amount]) => ({
+        account: LedgerAccount.COMMISSION_DUST,
+        userId: earnerId,
+        amount,
+      })),
+      ...clawbacks.map((clawback) => this.commissionLine(clawback)),
+    ];
+
+    return {
+      type,
+      tradeId: trade.id,
+      lines: this.withPlatformRevenue(
+        lines,
+        type === JournalEntryType.TRADE_REVERSAL ? 'TRADE_REVERSED' : 'TRADE_FAILED'
+      ),
+    };
+  }
+
+  /**
+   * Post a claim: the claimed commissions move from payable to payout clearing
+   */
+  public static buildClaimEntry(
+    claimId: string,
+    userId: string,
+    commissions: Commission[]
+  ): JournalEntryDraft {
+    const amount = commissions.reduce(
+      (total, commission) => total.add(this.getCommissionUsdAmount(commission)),
+      new Decimal(0)
+    );
+
+    return {
+      type: JournalEntryType.CLAIM,
+      claimId,
+      lines: this.withoutZeroLines([
+        { account: LedgerAccount.COMMISSIONS_PAYABLE, userId, amount },
+        { account: LedgerAccount.PAYOUT_CLEARING, userId, amount: amount.neg() },
+      ]),
+    };
+  }
+
+  /**
+   * Post the adjustment commissions of a recalculation, funded by platform revenue
+   */
+  public static buildAdjustmentEntry(
+    tradeId: string,
+    adjustments: Commission[]
+  ): JournalEntryDraft {
+    return {
+      type: JournalEntryType.COMMISSION_ADJUSTMENT,
+      tradeId,
+      lines: this.withPlatformRevenue(
+        adjustments.map((adjustment) => this.commissionLine(adjustment)),
+        'COMMISSION_ADJUSTMENT'
+      ),
+    };
+  }
+
+  /**
+   * Post the opening balances of records that predate the journal, funded by
+   * platform revenue
+   */
+  public static buildOpeningBalanceEntry(
+    balances: { account: LedgerAccount; userId: string; amount: Decimal }[]
+  ): JournalEntryDraft {
+    return {
+      type: JournalEntryType.OPENING_BALANCE,
+      lines: this.withPlatformRevenue(
+        balances.map(({ account, userId, amount }) => ({ account, userId, amount })),
+        'OPENING_BALANCE'
+      ),
+    };
+  }
+
+  /**
+   * USD value of a commission, falling back to its converted amount for legacy rows
+   */
+  public static getCommissionUsdAmount(commission: Commission): Decimal {
+    if (commission.sourceAmount !== undefined && commission.sourceAmount !== null) {
+      return new Decimal(commission.sourceAmount.toString());
+    }
+    return new Decimal(commission.amount.toString()).div(commission.conversionRate.toString());
+  }
+
+  /**
+   * Sum of an entry's lines; zero when it is balanced
+   */
+  public static getImbalance(entry: JournalEntryDraft): Decimal {
+    return entry.lines.reduce((total, line) => total.add(line.amount), new Decimal(0));
+  }
+
+  /**
+   * Credit a commission to its earner's pending or payable account
+   */
+  private static commissionLine(commission: Commission): JournalLineDraft {
+    return {
+      account:
+        commission.status === CommissionStatus.PENDING
+          ? LedgerAccount.COMMISSIONS_PENDING
+          : LedgerAccount.COMMISSIONS_PAYABLE,
+      userId: commission.earnerId,
+      amount: this.getCommissionUsdAmount(commission).neg(),
+    };
+  }
+
+  /**
+   * USD value of the dust paid out with a commission
+   */
+  private static getDustUsdAmount(commission: Commission): Decimal {
+    if (!commission.dustAmount) {
+      return new Decimal(0);
+    }
+    return new Decimal(commission.dustAmount.toString()).div(commission.conversionRate.toString());
+  }
+
+  /**
+   * Balance the lines against platform revenue
+   */
+  private static withPlatformRevenue(
+    lines: JournalLineDraft[],
+    reason: string
+  ): JournalLineDraft[] {
+    const rounded = this.withoutZeroLines(lines);
+    const remainder = rounded.reduce((total, line) => total.add(line.amount), new Decimal(0));
+
+    return this.withoutZeroLines([
+      ...rounded,
+      { account: LedgerAccount.PLATFORM_REVENUE, amount: remainder.neg(), reason },
+    ]);
+  }
+
+  /**
+   * Round the lines to the stored precision and drop the empty ones
+   */
+  private static withoutZeroLines(lines: JournalLineDraft[]): JournalLineDraft[] {
+    return lines
+      .map((line) => ({ ...line, amount: DecimalUtils.round(line.amount, LINE_PRECISION) }))
+      .filter((line) => !line.amount.isZero());
+  }
+}
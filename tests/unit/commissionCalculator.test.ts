@@ -1,6 +1,19 @@
 import { Decimal } from 'decimal.js';
 import { CommissionCalculator } from '../../src/utils/commissionCalculator';
-import { User, FeeTier, Trade, CustomCommissionStructure, TradeStatus } from '../../src/types';
+import {
+  User,
+  FeeTier,
+  FeeCampaign,
+  Trade,
+  CustomCommissionStructure,
+  CommissionPlan,
+  PlatformShare,
+  TradeStatus,
+  Commission,
+  CommissionStatus,
+  SettlementConfig,
+} from '../../src/types';
+import { referralConfig, businessRules } from '../../src/config';
 
 /**
  * Unit Tests for Commission Calculator
@@ -18,6 +31,7 @@ describe('CommissionCalculator', () => {
     {
       id: '1',
       name: 'BASE',
+      tradeType: 'SPOT',
       minimumVolume: new Decimal(0),
       feeRate: new Decimal(0.01), // 1%
       priority: 0,
@@ -29,6 +43,7 @@ describe('CommissionCalculator', () => {
     {
       id: '2',
       name: 'TIER1',
+      tradeType: 'SPOT',
       minimumVolume: new Decimal(10000),
       feeRate: new Decimal(0.008), // 0.8%
       priority: 1,
@@ -40,6 +55,7 @@ describe('CommissionCalculator', () => {
     {
       id: '3',
       name: 'VIP',
+      tradeType: 'SPOT',
       minimumVolume: new Decimal(1000000),
       feeRate: new Decimal(0.003), // 0.3%
       priority: 4,
@@ -59,6 +75,7 @@ describe('CommissionCalculator', () => {
     feeTier: 'BASE',
     customFeeRate: undefined,
     feeDiscountRate: new Decimal(0),
+    kickbackRate: new Decimal(0),
     customCommissionStructure: undefined,
     isTeamMember: false,
     isWaivedFees: false,
@@ -111,10 +128,27 @@ describe('CommissionCalculator', () => {
       expect(result.tierUsed).toBe('BASE');
     });
 
+    it('should drop the fee discount once the referral has expired', () => {
+      const user = createMockUser({
+        feeDiscountRate: new Decimal(0.10),
+        referralExpiresAt: new Date('2026-01-01T00:00:00Z'),
+      });
+
+      const result = CommissionCalculator.calculateEffectiveFeeRate(
+        user,
+        new Decimal(1000),
+        mockFeeTiers,
+        { at: new Date('2026-01-01T00:00:00Z') }
+      );
+
+      expect(result.appliedFeeRate.toString()).toBe('0.01');
+      expect(result.discountApplied).toBe(false);
+    });
+
     it('should use fee tier rate when better than discounted base rate', () => {
       const user = createMockUser({
         feeDiscountRate: new Decimal(0.10),
-        totalTradeVolume: new Decimal(15000), // Qualifies for TIER1
+        feeTier: 'TIER1',
       });
       const tradeVolume = new Decimal(1000);
 
@@ -132,6 +166,41 @@ describe('CommissionCalculator', () => {
       expect(result.tierUsed).toBe('TIER1');
     });
 
+    it('should use the assigned tier rather than the trader\'s volume', () => {
+      const user = createMockUser({
+        feeDiscountRate: new Decimal(0.10),
+        feeTier: 'BASE',
+        totalTradeVolume: new Decimal(2000000), // Lifetime volume would qualify for VIP
+      });
+
+      const result = CommissionCalculator.calculateEffectiveFeeRate(
+        user,
+        new Decimal(1000),
+        mockFeeTiers,
+        { rollingVolume: new Decimal(15000) } // Upgrade not applied yet
+      );
+
+      expect(result.tierUsed).toBe('BASE');
+      expect(result.appliedFeeRate.toString()).toBe('0.009'); // Base rate with signup discount
+    });
+
+    it('should qualify on the rolling volume when the assigned tier is not active', () => {
+      const user = createMockUser({
+        feeTier: 'RETIRED',
+        totalTradeVolume: new Decimal(2000000), // Lifetime volume would qualify for VIP
+      });
+
+      const result = CommissionCalculator.calculateEffectiveFeeRate(
+        user,
+        new Decimal(1000),
+        mockFeeTiers,
+        { rollingVolume: new Decimal(15000) }
+      );
+
+      expect(result.tierUsed).toBe('TIER1');
+      expect(result.appliedFeeRate.toString()).toBe('0.008');
+    });
+
     it('should use custom fee rate when specified', () => {
       const user = createMockUser({
         customFeeRate: new Decimal(0.005), // 0.5% custom rate
@@ -185,6 +254,203 @@ describe('CommissionCalculator', () => {
       expect(result.appliedFeeRate.toString()).toBe('0');
       expect(result.tierUsed).toBe('WAIVED');
     });
+
+    it('should use the product fee schedule for the trade type', () => {
+      const futuresTiers: FeeTier[] = [
+        ...mockFeeTiers,
+        {
+          ...mockFeeTiers[1],
+          id: '4',
+          tradeType: 'FUTURES',
+          minimumVolume: new Decimal(10000),
+          feeRate: new Decimal(0.0004),
+        },
+      ];
+      const user = createMockUser({ totalTradeVolume: new Decimal(15000) });
+      const tradeVolume = new Decimal(100000); // Notional
+
+      const result = CommissionCalculator.calculateEffectiveFeeRate(
+        user,
+        tradeVolume,
+        futuresTiers,
+        { tradeType: 'FUTURES' }
+      );
+
+      expect(result.feeSchedule).toBe('FUTURES');
+      expect(result.originalFeeRate.toString()).toBe('0.0005'); // Futures base rate
+      expect(result.appliedFeeRate.toString()).toBe('0.0004'); // Futures TIER1, not spot TIER1
+      expect(result.feeAmount.toString()).toBe('50');
+      expect(result.netFeeAmount.toString()).toBe('40');
+      expect(result.tierUsed).toBe('TIER1');
+    });
+
+    it('should charge maker rates and pay negative maker rebates', () => {
+      const futuresTiers: FeeTier[] = [
+        {
+          ...mockFeeTiers[2],
+          id: '5',
+          tradeType: 'FUTURES',
+          minimumVolume: new Decimal(10000),
+          feeRate: new Decimal(0.0002),
+          makerFeeRate: new Decimal(-0.00005),
+        },
+      ];
+      const user = createMockUser({
+        feeDiscountRate: new Decimal(0.1),
+        totalTradeVolume: new Decimal(15000),
+      });
+
+      const result = CommissionCalculator.calculateEffectiveFeeRate(
+        user,
+        new Decimal(100000),
+        futuresTiers,
+        { tradeType: 'FUTURES', liquidityRole: 'MAKER' }
+      );
+
+      expect(result.liquidityRole).toBe('MAKER');
+      expect(result.originalFeeRate.toString()).toBe('0.0002'); // Futures maker base rate
+      expect(result.appliedFeeRate.toString()).toBe('-0.00005');
+      expect(result.netFeeAmount.toString()).toBe('-5'); // Rebate paid to the maker
+      expect(result.tierUsed).toBe('VIP');
+    });
+
+    describe('with fee campaigns', () => {
+      const at = new Date('2024-03-10T12:00:00Z');
+      const createCampaign = (overrides: Partial<FeeCampaign> = {}): FeeCampaign => ({
+        id: 'campaign-1',
+        name: 'SOL week',
+        startsAt: new Date('2024-03-08T00:00:00Z'),
+        endsAt: new Date('2024-03-15T00:00:00Z'),
+        assets: [],
+        networks: [],
+        chains: [],
+        tradeTypes: [],
+        userSegments: [],
+        discountRate: new Decimal(0.5),
+        isActive: true,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        ...overrides,
+      });
+      const solTrade = {
+        at,
+        baseAsset: 'SOL',
+        quoteAsset: 'USDC',
+        chain: 'SVM',
+        network: 'Solana',
+      };
+
+      it('should apply an eligible campaign discount and record it', () => {
+        const result = CommissionCalculator.calculateEffectiveFeeRate(
+          createMockUser(),
+          new Decimal(1000),
+          mockFeeTiers,
+          { ...solTrade, campaigns: [createCampaign({ assets: ['SOL'] })] }
+        );
+
+        expect(result.appliedFeeRate.toString()).toBe('0.005');
+        expect(result.feeAmount.toString()).toBe('10');
+        expect(result.netFeeAmount.toString()).toBe('5');
+        expect(result.rebateAmount.toString()).toBe('5');
+        expect(result.tierUsed).toBe('CAMPAIGN');
+        expect(result.campaignId).toBe('campaign-1');
+      });
+
+      it('should pick the campaign giving the lowest rate', () => {
+        const result = CommissionCalculator.calculateEffectiveFeeRate(
+          createMockUser(),
+          new Decimal(1000),
+          mockFeeTiers,
+          {
+            ...solTrade,
+            campaigns: [
+              createCampaign(),
+              createCampaign({ id: 'zero-fees', discountRate: null, overrideRate: new Decimal(0) }),
+            ],
+          }
+        );
+
+        expect(result.appliedFeeRate.toString()).toBe('0');
+        expect(result.campaignId).toBe('zero-fees');
+      });
+
+      it('should skip campaigns the trade does not match', () => {
+        const campaigns = [
+          createCampaign({ assets: ['ETH'] }),
+          createCampaign({ networks: ['Arbitrum'] }),
+          createCampaign({ tradeTypes: ['FUTURES'] }),
+          createCampaign({ userSegments: ['REFERRED'] }),
+          createCampaign({ signedUpFrom: new Date('2024-03-08T00:00:00Z') }),
+          createCampaign({ endsAt: new Date('2024-03-09T00:00:00Z') }),
+          createCampaign({ isActive: false }),
+        ];
+
+        const result = CommissionCalculator.calculateEffectiveFeeRate(
+          createMockUser({ createdAt: new Date('2024-01-01T00:00:00Z') }),
+          new Decimal(1000),
+          mockFeeTiers,
+          { ...solTrade, campaigns }
+        );
+
+        expect(result.tierUsed).toBe('BASE');
+        expect(result.campaignId).toBeUndefined();
+      });
+
+      it('should keep a tier rate that beats the override rate', () => {
+        const result = CommissionCalculator.calculateEffectiveFeeRate(
+          createMockUser({ feeTier: 'VIP' }),
+          new Decimal(1000),
+          mockFeeTiers,
+          {
+            ...solTrade,
+            campaigns: [createCampaign({ discountRate: null, overrideRate: new Decimal(0.005) })],
+          }
+        );
+
+        expect(result.appliedFeeRate.toString()).toBe('0.003');
+        expect(result.tierUsed).toBe('VIP');
+      });
+    });
+
+    it('should default to the spot schedule', () => {
+      const result = CommissionCalculator.calculateEffectiveFeeRate(
+        createMockUser(),
+        new Decimal(1000),
+        mockFeeTiers
+      );
+
+      expect(result.feeSchedule).toBe('SPOT');
+    });
+
+    it('should split the referrer\'s kickback off their level-1 commission', () => {
+      const result = CommissionCalculator.calculateEffectiveFeeRate(
+        createMockUser({ feeDiscountRate: new Decimal(0.1) }),
+        new Decimal(1000),
+        mockFeeTiers,
+        { referrer: createMockUser({ id: 'referrer', kickbackRate: new Decimal(0.2) }) }
+      );
+
+      expect(result.netFeeAmount.toString()).toBe('9');
+      expect(result.kickbackAmount!.toString()).toBe('0.54'); // 20% of the 2.7 commission
+      expect(result.referrerCommissionAmount!.toString()).toBe('2.16');
+    });
+
+    it('should not give kickbacks from team member referrers', () => {
+      const result = CommissionCalculator.calculateEffectiveFeeRate(
+        createMockUser(),
+        new Decimal(1000),
+        mockFeeTiers,
+        {
+          referrer: createMockUser({
+            id: 'referrer',
+            isTeamMember: true,
+            kickbackRate: new Decimal(0.2),
+          }),
+        }
+      );
+
+      expect(result.kickbackAmount).toBeUndefined();
+    });
   });
 
   describe('calculateCommissionDistribution', () => {
@@ -197,10 +463,14 @@ describe('CommissionCalculator', () => {
       side: 'BUY',
       volume: new Decimal(1),
       price: new Decimal(50000),
+      liquidityRole: 'TAKER',
+      quoteUsdRate: new Decimal(1),
+      usdValue: new Decimal(50000),
       feeRate: new Decimal(0.01),
       feeAmount: new Decimal(500),
       netFeeAmount: new Decimal(450),
       rebateAmount: new Decimal(50),
+      kickbackAmount: new Decimal(0),
       chain: 'EVM',
       network: 'Arbitrum',
       status: TradeStatus.COMPLETED,
@@ -217,6 +487,8 @@ describe('CommissionCalculator', () => {
       rebateAmount: new Decimal(50),
       discountApplied: true,
       tierUsed: 'BASE',
+      feeSchedule: 'SPOT',
+      liquidityRole: 'TAKER' as const,
     };
 
     it('should calculate standard 3-level commission distribution', async () => {
@@ -291,6 +563,272 @@ describe('CommissionCalculator', () => {
       expect(result[1].rate.toString()).toBe('0.03');
     });
 
+    it('should credit the kickback to the trader at level 0', async () => {
+      const result = await CommissionCalculator.calculateCommissionDistribution(
+        mockTrade,
+        createMockUser({ id: 'trader', email: 'trader@test.com' }),
+        [createMockUser({ id: 'level1', kickbackRate: new Decimal(0.2) })],
+        { ...feeCalculationResult, kickbackAmount: new Decimal(27) }
+      );
+
+      expect(result).toHaveLength(2);
+      expect(result[0].level).toBe(0);
+      expect(result[0].earnerId).toBe('trader');
+      expect(result[0].amount.toString()).toBe('27'); // 20% of 450 * 0.30
+      expect(result[0].rate.toString()).toBe('0.06');
+      expect(result[1].earnerId).toBe('level1');
+      expect(result[1].amount.toString()).toBe('108');
+    });
+
+    it('should raise the rates of referrers in an ambassador tier', async () => {
+      const result = await CommissionCalculator.calculateCommissionDistribution(
+        mockTrade,
+        createMockUser({ id: 'trader' }),
+        [
+          createMockUser({ id: 'level1', ambassadorTier: 'GOLD' }),
+          createMockUser({ id: 'level2' }),
+        ],
+        feeCalculationResult
+      );
+
+      expect(result[0].rate.toString()).toBe('0.4');
+      expect(result[0].amount.toString()).toBe('180'); // 450 * 0.40
+      expect(result[0].ambassadorTier).toBe('GOLD');
+      expect(result[1].rate.toString()).toBe('0.03');
+      expect(result[1].ambassadorTier).toBeUndefined();
+    });
+
+    it('should fall back to the standard schedule for levels a custom structure omits', async () => {
+      const trader = createMockUser({ id: 'trader' });
+      const kol = createMockUser({
+        id: 'kol',
+        email: 'kol@test.com',
+        customCommissionStructure: { levelRates: [0.4], type: 'KOL_CUSTOM' },
+      });
+      const level2 = createMockUser({ id: 'level2', email: 'level2@test.com' });
+
+      // The KOL earns at level 2 on trades of a referral's referral
+      const result = await CommissionCalculator.calculateCommissionDistribution(
+        mockTrade,
+        trader,
+        [level2, kol],
+        feeCalculationResult
+      );
+
+      expect(result).toHaveLength(2);
+      expect(result[1].earnerId).toBe('kol');
+      expect(result[1].rate.toString()).toBe('0.03'); // Standard level 2 rate
+    });
+
+    it('should follow a configured schedule of any depth', async () => {
+      const originalRates = referralConfig.levelRates;
+      const originalDepth = businessRules.maxReferralDepth;
+      referralConfig.levelRates = [0.2, 0.05, 0.03, 0.02, 0.01];
+      businessRules.maxReferralDepth = 5;
+
+      try {
+        const trader = createMockUser({ id: 'trader' });
+        const referralChain = [1, 2, 3, 4, 5].map((level) =>
+          createMockUser({ id: `level${level}`, email: `level${level}@test.com` })
+        );
+
+        const result = await CommissionCalculator.calculateCommissionDistribution(
+          mockTrade,
+          trader,
+          referralChain,
+          feeCalculationResult
+        );
+
+        expect(result).toHaveLength(5);
+        expect(result[4].earnerId).toBe('level5');
+        expect(result[4].amount.toString()).toBe('4.5'); // 450 * 0.01
+      } finally {
+        referralConfig.levelRates = originalRates;
+        businessRules.maxReferralDepth = originalDepth;
+      }
+    });
+
+    it('should use the rates of the given commission plan', async () => {
+      const trader = createMockUser({ id: 'trader' });
+      const plan: CommissionPlan = {
+        id: 'plan-2',
+        version: 2,
+        levelRates: [new Decimal(0.25), new Decimal(0.05)],
+        effectiveFrom: new Date('2026-01-01T00:00:00Z'),
+        createdAt: new Date('2026-01-01T00:00:00Z'),
+      };
+      const referralChain = [
+        createMockUser({ id: 'level1', email: 'level1@test.com' }),
+        createMockUser({ id: 'level2', email: 'level2@test.com' }),
+        createMockUser({ id: 'level3', email: 'level3@test.com' }),
+      ];
+
+      const result = await CommissionCalculator.calculateCommissionDistribution(
+        mockTrade,
+        trader,
+        referralChain,
+        feeCalculationResult,
+        { plan }
+      );
+
+      // The plan has no third level, so level 3 earns nothing
+      expect(result).toHaveLength(2);
+      expect(result[0].amount.toString()).toBe('112.5'); // 450 * 0.25
+      expect(result[0].planVersion).toBe(2);
+      expect(result[1].amount.toString()).toBe('22.5'); // 450 * 0.05
+    });
+
+    it('should cap commissions at the room left under the earner\'s caps', async () => {
+      const trader = createMockUser({ id: 'trader' });
+      const kol = createMockUser({ id: 'kol', email: 'kol@test.com' });
+      const level2 = createMockUser({ id: 'level2', email: 'level2@test.com' });
+
+      const result = await CommissionCalculator.calculateCommissionDistribution(
+        mockTrade,
+        trader,
+        [kol, level2],
+        feeCalculationResult,
+        {
+          capping: {
+            caps: { perRefereeMonthly: 500, perEarnerDaily: 1000 },
+            accrued: new Map([
+              [
+                'kol',
+                {
+                  earnerDaily: new Decimal(950),
+                  earnerMonthly: new Decimal(2000),
+                  fromRefereeMonthly: new Decimal(400),
+                },
+              ],
+            ]),
+          },
+        }
+      );
+
+      // 135 uncapped; 100 left from this referee, 50 left today
+      expect(result[0].amount.toString()).toBe('50');
+      expect(result[0].cappedAmount!.toString()).toBe('85');
+      expect(result[0].capReason).toBe('EARNER_DAILY');
+
+      // Nothing accrued yet for level 2
+      expect(result[1].amount.toString()).toBe('13.5');
+      expect(result[1].capReason).toBeUndefined();
+    });
+
+    it('should keep fully capped commissions on record at zero', async () => {
+      const trader = createMockUser({ id: 'trader' });
+      const kol = createMockUser({ id: 'kol', email: 'kol@test.com' });
+
+      const result = await CommissionCalculator.calculateCommissionDistribution(
+        mockTrade,
+        trader,
+        [kol],
+        feeCalculationResult,
+        {
+          capping: {
+            caps: { perEarnerMonthly: 1000 },
+            accrued: new Map([
+              [
+                'kol',
+                {
+                  earnerDaily: new Decimal(0),
+                  earnerMonthly: new Decimal(1200),
+                  fromRefereeMonthly: new Decimal(0),
+                },
+              ],
+            ]),
+          },
+        }
+      );
+
+      expect(result).toHaveLength(1);
+      expect(result[0].amount.toString()).toBe('0');
+      expect(result[0].cappedAmount!.toString()).toBe('135');
+      expect(result[0].capReason).toBe('EARNER_MONTHLY');
+    });
+
+    it('should cap the kickback together with the referrer\'s commission', async () => {
+      const result = await CommissionCalculator.calculateCommissionDistribution(
+        mockTrade,
+        createMockUser({ id: 'trader' }),
+        [createMockUser({ id: 'kol', kickbackRate: new Decimal(0.2) })],
+        { ...feeCalculationResult, kickbackAmount: new Decimal(27) },
+        {
+          capping: {
+            caps: { perEarnerDaily: 1000 },
+            accrued: new Map([
+              [
+                'kol',
+                {
+                  earnerDaily: new Decimal(950),
+                  earnerMonthly: new Decimal(0),
+                  fromRefereeMonthly: new Decimal(0),
+                },
+              ],
+            ]),
+          },
+        }
+      );
+
+      // 135 uncapped, 50 left today: the kickback keeps its 20% of what is paid
+      expect(result[0].level).toBe(0);
+      expect(result[0].amount.toString()).toBe('10');
+      expect(result[0].cappedAmount!.toString()).toBe('17');
+      expect(result[0].capReason).toBe('EARNER_DAILY');
+      expect(result[1].amount.toString()).toBe('40');
+      expect(result[1].cappedAmount!.toString()).toBe('68');
+    });
+
+    describe('with dust', () => {
+      const cappedAt = (perEarnerDaily: number) => ({
+        caps: { perEarnerDaily },
+        accrued: new Map([
+          [
+            'kol',
+            {
+              earnerDaily: new Decimal(0),
+              earnerMonthly: new Decimal(0),
+              fromRefereeMonthly: new Decimal(0),
+            },
+          ],
+        ]),
+      });
+
+      it('should keep dust in the balance when the commission is capped', async () => {
+        const dust = new Map([['kol', new Decimal(0.5)]]);
+
+        const result = await CommissionCalculator.calculateCommissionDistribution(
+          mockTrade,
+          createMockUser({ id: 'trader' }),
+          [createMockUser({ id: 'kol' })],
+          feeCalculationResult,
+          { capping: cappedAt(50), dust }
+        );
+
+        expect(result[0].amount.toString()).toBe('50');
+        expect(result[0].cappedAmount!.toString()).toBe('85');
+        expect(result[0].dustAmount).toBeUndefined();
+        expect(dust.get('kol')!.toString()).toBe('0.5');
+      });
+
+      it('should only pay out the dust the caps leave room for', async () => {
+        const dust = new Map([['kol', new Decimal(0.5)]]);
+
+        const result = await CommissionCalculator.calculateCommissionDistribution(
+          mockTrade,
+          createMockUser({ id: 'trader' }),
+          [createMockUser({ id: 'kol' })],
+          feeCalculationResult,
+          { capping: cappedAt(135.2), dust }
+        );
+
+        expect(result[0].amount.toString()).toBe('135.2');
+        expect(result[0].dustAmount!.toString()).toBe('0.2');
+        expect(result[0].capReason).toBeUndefined();
+        expect(dust.get('kol')!.toString()).toBe('0.3');
+      });
+    });
+
     it('should skip team members in commission distribution', async () => {
       const trader = createMockUser({ id: 'trader' });
       const teamMember = createMockUser({ 
@@ -315,6 +853,143 @@ describe('CommissionCalculator', () => {
       expect(result[0].level).toBe(2); // Level shifts up since team member is skipped
     });
 
+    it('should book the shares of skipped ancestors to the platform', async () => {
+      const teamMember = createMockUser({ id: 'team', isTeamMember: true });
+      const platformShares: PlatformShare[] = [];
+
+      await CommissionCalculator.calculateCommissionDistribution(
+        mockTrade,
+        createMockUser({ id: 'trader' }),
+        [teamMember, createMockUser({ id: 'level2' })],
+        feeCalculationResult,
+        { platformShares }
+      );
+
+      expect(platformShares).toHaveLength(1);
+      expect(platformShares[0]).toMatchObject({ level: 1, skippedUserId: 'team', reason: 'TEAM_MEMBER' });
+      expect(platformShares[0].amount.toString()).toBe('135'); // 450 * 0.30
+    });
+
+    it('should accrue sub-minimum commissions as dust', async () => {
+      const dust = new Map<string, Decimal>();
+
+      const result = await CommissionCalculator.calculateCommissionDistribution(
+        mockTrade,
+        createMockUser({ id: 'trader' }),
+        [createMockUser({ id: 'level1' }), createMockUser({ id: 'level2' })],
+        { ...feeCalculationResult, netFeeAmount: new Decimal(0.1) },
+        { dust }
+      );
+
+      // Level 1 earns 0.03; level 2 earns 0.003, below the minimum
+      expect(result).toHaveLength(1);
+      expect(result[0].earnerId).toBe('level1');
+      expect(dust.get('level2')!.toString()).toBe('0.003');
+    });
+
+    it('should pay out dust once the balance crosses the minimum', async () => {
+      const dust = new Map([['level2', new Decimal(0.008)]]);
+
+      const result = await CommissionCalculator.calculateCommissionDistribution(
+        mockTrade,
+        createMockUser({ id: 'trader' }),
+        [createMockUser({ id: 'level1' }), createMockUser({ id: 'level2' })],
+        { ...feeCalculationResult, netFeeAmount: new Decimal(0.1) },
+        { dust }
+      );
+
+      expect(result).toHaveLength(2);
+      expect(result[1].amount.toString()).toBe('0.011'); // 0.003 + 0.008 accrued
+      expect(result[1].dustAmount!.toString()).toBe('0.008');
+      expect(dust.get('level2')!.toString()).toBe('0');
+    });
+
+    const dayMs = 24 * 60 * 60 * 1000;
+    const signedUpDaysAgo = (days: number) =>
+      new Date(mockTrade.createdAt.getTime() - days * dayMs);
+
+    it('should take a negative dust balance back from the next commission', async () => {
+      const dust = new Map([['level1', new Decimal(-0.005)]]);
+
+      const result = await CommissionCalculator.calculateCommissionDistribution(
+        mockTrade,
+        createMockUser({ id: 'trader' }),
+        [createMockUser({ id: 'level1' })],
+        { ...feeCalculationResult, netFeeAmount: new Decimal(0.1) },
+        { dust }
+      );
+
+      expect(result[0].amount.toString()).toBe('0.025'); // 0.03 less the 0.005 owed
+      expect(result[0].dustAmount!.toString()).toBe('-0.005');
+      expect(dust.get('level1')!.toString()).toBe('0');
+    });
+
+    it('should not pay referrers after the trader\'s earning window has ended', async () => {
+      const trader = createMockUser({
+        id: 'trader',
+        createdAt: signedUpDaysAgo(referralConfig.earningWindowDays + 1),
+      });
+      const referrer = createMockUser({ id: 'referrer' });
+
+      const result = await CommissionCalculator.calculateCommissionDistribution(
+        mockTrade,
+        trader,
+        [referrer],
+        feeCalculationResult
+      );
+
+      expect(result).toHaveLength(0);
+    });
+
+    it('should book every share to the platform after the earning window has ended', async () => {
+      const platformShares: PlatformShare[] = [];
+      const trader = createMockUser({
+        id: 'trader',
+        createdAt: signedUpDaysAgo(referralConfig.earningWindowDays + 1),
+      });
+
+      await CommissionCalculator.calculateCommissionDistribution(
+        mockTrade,
+        trader,
+        [createMockUser({ id: 'level1' }), createMockUser({ id: 'level2' })],
+        feeCalculationResult,
+        { platformShares }
+      );
+
+      expect(platformShares.map((share) => share.reason)).toEqual([
+        'REFERRAL_EXPIRED',
+        'REFERRAL_EXPIRED',
+      ]);
+    });
+
+    it('should end each ancestor\'s earning window per that ancestor\'s program', async () => {
+      const platformShares: PlatformShare[] = [];
+      const trader = createMockUser({ id: 'trader', createdAt: signedUpDaysAgo(60) });
+
+      const result = await CommissionCalculator.calculateCommissionDistribution(
+        mockTrade,
+        trader,
+        [
+          createMockUser({ id: 'level1' }),
+          createMockUser({
+            id: 'level2',
+            customCommissionStructure: { type: 'KOL_CUSTOM', earningWindowDays: 30 },
+          }),
+          createMockUser({
+            id: 'level3',
+            customCommissionStructure: { type: 'KOL_CUSTOM', earningWindowDays: 0 },
+          }),
+        ],
+        feeCalculationResult,
+        { platformShares }
+      );
+
+      // Level 2's 30-day window has ended; level 3's program never expires
+      expect(result.map((distribution) => distribution.earnerId)).toEqual(['level1', 'level3']);
+      expect(platformShares).toHaveLength(1);
+      expect(platformShares[0]).toMatchObject({ skippedUserId: 'level2', reason: 'REFERRAL_EXPIRED' });
+    });
+
     it('should return empty array when net fee is zero', async () => {
       const trader = createMockUser({ id: 'trader' });
       const referrer = createMockUser({ id: 'referrer' });
@@ -334,6 +1009,80 @@ describe('CommissionCalculator', () => {
 
       expect(result).toHaveLength(0);
     });
+
+    it('should not distribute commissions on a maker rebate', async () => {
+      const result = await CommissionCalculator.calculateCommissionDistribution(
+        mockTrade,
+        createMockUser({ id: 'trader' }),
+        [createMockUser({ id: 'referrer' })],
+        {
+          ...feeCalculationResult,
+          appliedFeeRate: new Decimal(-0.00005),
+          netFeeAmount: new Decimal(-5),
+          liquidityRole: 'MAKER',
+        }
+      );
+
+      expect(result).toHaveLength(0);
+    });
+  });
+
+  describe('determineAmbassadorTier', () => {
+    it('should return null below every threshold', () => {
+      expect(
+        CommissionCalculator.determineAmbassadorTier({
+          networkVolume: new Decimal(999999),
+          activeReferees: 24,
+        })
+      ).toBeNull();
+    });
+
+    it('should qualify on network volume alone', () => {
+      expect(
+        CommissionCalculator.determineAmbassadorTier({
+          networkVolume: new Decimal(5000000),
+          activeReferees: 0,
+        })
+      ).toBe('GOLD');
+    });
+
+    it('should qualify on active referees alone', () => {
+      expect(
+        CommissionCalculator.determineAmbassadorTier({
+          networkVolume: new Decimal(0),
+          activeReferees: 30,
+        })
+      ).toBe('SILVER');
+    });
+  });
+
+  describe('calculateReferralExpiry', () => {
+    const signedUpAt = new Date('2026-01-01T00:00:00Z');
+
+    it('should end the earning window after the configured number of days', () => {
+      const expiry = CommissionCalculator.calculateReferralExpiry(createMockUser(), signedUpAt);
+      expect(expiry!.getTime() - signedUpAt.getTime()).toBe(
+        referralConfig.earningWindowDays * 24 * 60 * 60 * 1000
+      );
+    });
+
+    it('should use the referrer\'s program window when set', () => {
+      const referrer = createMockUser({
+        customCommissionStructure: { type: 'KOL_CUSTOM', earningWindowDays: 30 },
+      });
+
+      expect(CommissionCalculator.calculateReferralExpiry(referrer, signedUpAt)).toEqual(
+        new Date('2026-01-31T00:00:00Z')
+      );
+    });
+
+    it('should never expire when the window is zero', () => {
+      const referrer = createMockUser({
+        customCommissionStructure: { type: 'KOL_CUSTOM', earningWindowDays: 0 },
+      });
+
+      expect(CommissionCalculator.calculateReferralExpiry(referrer, signedUpAt)).toBeNull();
+    });
   });
 
   describe('validateReferralChain', () => {
@@ -389,6 +1138,31 @@ describe('CommissionCalculator', () => {
     });
   });
 
+  describe('getDiscountedBaseRate', () => {
+    it('should apply the signup discount while the referral is active', () => {
+      const user = createMockUser({ feeDiscountRate: new Decimal(0.1) });
+
+      const result = CommissionCalculator.getDiscountedBaseRate(user, new Decimal(0.01));
+
+      expect(result.toString()).toBe('0.009');
+    });
+
+    it('should drop the discount once the referral has lapsed', () => {
+      const user = createMockUser({
+        feeDiscountRate: new Decimal(0.1),
+        referralExpiresAt: new Date('2024-01-01T00:00:00Z'),
+      });
+
+      const result = CommissionCalculator.getDiscountedBaseRate(
+        user,
+        new Decimal(0.01),
+        new Date('2024-02-01T00:00:00Z')
+      );
+
+      expect(result.toString()).toBe('0.01');
+    });
+  });
+
   describe('calculateOptimalFeeTier', () => {
     it('should return highest tier user qualifies for', () => {
       const userVolume = new Decimal(1500000); // Qualifies for VIP
@@ -398,8 +1172,8 @@ describe('CommissionCalculator', () => {
         mockFeeTiers
       );
 
-      expect(result.name).toBe('VIP');
-      expect(result.feeRate.toString()).toBe('0.003');
+      expect(result!.name).toBe('VIP');
+      expect(result!.feeRate.toString()).toBe('0.003');
     });
 
     it('should return base tier for low volume users', () => {
@@ -410,8 +1184,8 @@ describe('CommissionCalculator', () => {
         mockFeeTiers
       );
 
-      expect(result.name).toBe('BASE');
-      expect(result.feeRate.toString()).toBe('0.01');
+      expect(result!.name).toBe('BASE');
+      expect(result!.feeRate.toString()).toBe('0.01');
     });
 
     it('should return intermediate tier when qualified', () => {
@@ -422,8 +1196,310 @@ describe('CommissionCalculator', () => {
         mockFeeTiers
       );
 
-      expect(result.name).toBe('TIER1');
-      expect(result.feeRate.toString()).toBe('0.008');
+      expect(result!.name).toBe('TIER1');
+      expect(result!.feeRate.toString()).toBe('0.008');
+    });
+  });
+
+  describe('evaluateFeeTier', () => {
+    const at = new Date('2024-03-10T12:00:00Z');
+
+    it('should upgrade at once', () => {
+      const result = CommissionCalculator.evaluateFeeTier(
+        { feeTier: 'BASE' },
+        new Decimal(15000),
+        mockFeeTiers,
+        at
+      );
+
+      expect(result.action).toBe('UPGRADE');
+      expect(result.qualifiedTier).toBe('TIER1');
+    });
+
+    it('should schedule a downgrade after the grace period', () => {
+      const result = CommissionCalculator.evaluateFeeTier(
+        { feeTier: 'VIP' },
+        new Decimal(15000),
+        mockFeeTiers,
+        at,
+        7
+      );
+
+      expect(result.action).toBe('SCHEDULE_DOWNGRADE');
+      expect(result.qualifiedTier).toBe('TIER1');
+      expect(result.downgradeAt).toEqual(new Date('2024-03-17T12:00:00Z'));
+    });
+
+    it('should keep the tier while the downgrade is pending', () => {
+      const downgradeAt = new Date('2024-03-11T00:00:00Z');
+      const result = CommissionCalculator.evaluateFeeTier(
+        { feeTier: 'VIP', feeTierDowngradeAt: downgradeAt },
+        new Decimal(0),
+        mockFeeTiers,
+        at
+      );
+
+      expect(result.action).toBe('NONE');
+      expect(result.downgradeAt).toEqual(downgradeAt);
+    });
+
+    it('should downgrade once the grace period has passed', () => {
+      const result = CommissionCalculator.evaluateFeeTier(
+        { feeTier: 'VIP', feeTierDowngradeAt: new Date('2024-03-10T00:00:00Z') },
+        new Decimal(0),
+        mockFeeTiers,
+        at
+      );
+
+      expect(result.action).toBe('DOWNGRADE');
+      expect(result.qualifiedTier).toBe('BASE');
+      expect(result.downgradeAt).toBeNull();
+    });
+
+    it('should cancel a pending downgrade when the trader qualifies again', () => {
+      const result = CommissionCalculator.evaluateFeeTier(
+        { feeTier: 'TIER1', feeTierDowngradeAt: new Date('2024-03-11T00:00:00Z') },
+        new Decimal(20000),
+        mockFeeTiers,
+        at
+      );
+
+      expect(result.action).toBe('CANCEL_DOWNGRADE');
+      expect(result.downgradeAt).toBeNull();
+    });
+
+    it('should downgrade at once without a grace period', () => {
+      const result = CommissionCalculator.evaluateFeeTier(
+        { feeTier: 'VIP' },
+        new Decimal(15000),
+        mockFeeTiers,
+        at,
+        0
+      );
+
+      expect(result.action).toBe('DOWNGRADE');
+      expect(result.qualifiedTier).toBe('TIER1');
+    });
+  });
+
+  describe('validateFeeTierSchedule', () => {
+    it('should accept a consistent schedule', () => {
+      expect(CommissionCalculator.validateFeeTierSchedule(mockFeeTiers)).toEqual([]);
+    });
+
+    it('should reject tiers sharing a priority', () => {
+      const violations = CommissionCalculator.validateFeeTierSchedule([
+        ...mockFeeTiers,
+        { ...mockFeeTiers[1], id: '4', name: 'TIER1B', minimumVolume: new Decimal(20000) },
+      ]);
+
+      expect(violations).toEqual(['SPOT TIER1 and TIER1B share priority 1']);
+    });
+
+    it('should reject rates that do not decrease with priority', () => {
+      const violations = CommissionCalculator.validateFeeTierSchedule([
+        mockFeeTiers[0],
+        { ...mockFeeTiers[1], feeRate: new Decimal(0.01) },
+      ]);
+
+      expect(violations).toEqual([
+        'SPOT BASE and TIER1: fee rate must decrease as priority increases',
+      ]);
+    });
+
+    it('should reject minimum volumes that do not increase with priority', () => {
+      const violations = CommissionCalculator.validateFeeTierSchedule([
+        mockFeeTiers[0],
+        { ...mockFeeTiers[2], minimumVolume: new Decimal(0) },
+      ]);
+
+      expect(violations).toEqual([
+        'SPOT BASE and VIP: minimum volume must increase with priority',
+      ]);
+    });
+
+    it('should ignore inactive tiers and validate each schedule on its own', () => {
+      const violations = CommissionCalculator.validateFeeTierSchedule([
+        ...mockFeeTiers,
+        { ...mockFeeTiers[1], id: '4', isActive: false, feeRate: new Decimal(0.02) },
+        { ...mockFeeTiers[0], id: '5', tradeType: 'FUTURES' },
+        { ...mockFeeTiers[2], id: '6', tradeType: 'FUTURES', minimumVolume: new Decimal(5000) },
+      ]);
+
+      expect(violations).toEqual([]);
+    });
+
+    it('should require each schedule to keep its BASE tier active', () => {
+      const violations = CommissionCalculator.validateFeeTierSchedule([
+        { ...mockFeeTiers[0], isActive: false },
+        mockFeeTiers[1],
+        mockFeeTiers[2],
+      ]);
+
+      expect(violations).toEqual(['SPOT: the BASE tier must stay active']);
+    });
+
+    it('should reject a schedule left without active tiers', () => {
+      const violations = CommissionCalculator.validateFeeTierSchedule(
+        mockFeeTiers.map((tier) => ({ ...tier, isActive: false })),
+        ['SPOT']
+      );
+
+      expect(violations).toEqual(['SPOT: the BASE tier must stay active']);
+    });
+  });
+
+  describe('calculateFeeTierProgress', () => {
+    it('should return the volume needed for the next tier', () => {
+      const result = CommissionCalculator.calculateFeeTierProgress(
+        new Decimal(15000),
+        mockFeeTiers
+      );
+
+      expect(result.currentTier).toBe('TIER1');
+      expect(result.nextTier).toBe('VIP');
+      expect(result.volumeToNextTier!.toString()).toBe('985000');
+    });
+
+    it('should return no next tier at the top tier', () => {
+      const result = CommissionCalculator.calculateFeeTierProgress(
+        new Decimal(2000000),
+        mockFeeTiers
+      );
+
+      expect(result.currentTier).toBe('VIP');
+      expect(result.nextTier).toBeNull();
+      expect(result.volumeToNextTier).toBeNull();
+    });
+
+    it('should report no current tier when the schedule has no active tiers', () => {
+      const result = CommissionCalculator.calculateFeeTierProgress(
+        new Decimal(15000),
+        mockFeeTiers.map((tier) => ({ ...tier, isActive: false }))
+      );
+
+      expect(result.currentTier).toBeNull();
+      expect(result.nextTier).toBeNull();
+      expect(result.volumeToNextTier).toBeNull();
+    });
+  });
+
+  describe('calculateEarningsBreakdown', () => {
+    const createCommission = (commissionLevel: number, amount: number): Commission => ({
+      id: `commission-${commissionLevel}`,
+      amount: new Decimal(amount),
+      tokenType: 'USDC',
+      commissionLevel,
+      rate: new Decimal(0.1),
+      earnerId: 'earner',
+      sourceUserId: 'trader',
+      tradeId: 'trade-1',
+      originalFeeAmount: new Decimal(100),
+      status: CommissionStatus.UNCLAIMED,
+      conversionRate: new Decimal(1),
+      createdAt: new Date('2024-01-01T00:00:00Z'),
+      updatedAt: new Date('2024-01-01T00:00:00Z'),
+    });
+
+    it('should include kickbacks at level 0 so the levels add up to the total', () => {
+      const result = CommissionCalculator.calculateEarningsBreakdown([
+        createCommission(0, 5),
+        createCommission(1, 30),
+        createCommission(2, 3),
+      ]);
+
+      expect(result.earningsByLevel[0].toString()).toBe('5');
+      expect(result.earningsByLevel[1].toString()).toBe('30');
+      const levelTotal = Object.values(result.earningsByLevel).reduce(
+        (sum, amount) => sum.add(amount),
+        new Decimal(0)
+      );
+      expect(levelTotal.toString()).toBe(result.totalEarnings.toString());
+    });
+  });
+
+  describe('getVolumeWindowStart', () => {
+    it('should count back whole UTC days, today included', () => {
+      const start = CommissionCalculator.getVolumeWindowStart(
+        new Date('2024-03-31T18:30:00Z'),
+        30
+      );
+
+      expect(start.toISOString()).toBe('2024-03-02T00:00:00.000Z');
+    });
+  });
+
+  describe('selectCommissionPlan', () => {
+    const plan = (version: number, effectiveFrom: string, effectiveTo?: string): CommissionPlan => ({
+      id: `plan-${version}`,
+      version,
+      levelRates: [new Decimal(0.3)],
+      effectiveFrom: new Date(effectiveFrom),
+      effectiveTo: effectiveTo ? new Date(effectiveTo) : null,
+      createdAt: new Date(effectiveFrom),
+    });
+
+    const plans = [
+      plan(1, '1970-01-01T00:00:00Z', '2026-03-01T00:00:00Z'),
+      plan(2, '2026-03-01T00:00:00Z', '2026-06-01T00:00:00Z'),
+      plan(3, '2026-06-01T00:00:00Z'),
+    ];
+
+    it('should pick the plan in effect at the given time', () => {
+      expect(
+        CommissionCalculator.selectCommissionPlan(plans, new Date('2026-04-15T12:00:00Z'))!.version
+      ).toBe(2);
+      expect(
+        CommissionCalculator.selectCommissionPlan(plans, new Date('2026-07-01T00:00:00Z'))!.version
+      ).toBe(3);
+    });
+
+    it('should switch plans exactly at the effective time', () => {
+      expect(
+        CommissionCalculator.selectCommissionPlan(plans, new Date('2026-03-01T00:00:00Z'))!.version
+      ).toBe(2);
+    });
+
+    it('should return null when no plan is in effect', () => {
+      expect(
+        CommissionCalculator.selectCommissionPlan([plans[2]], new Date('2026-01-01T00:00:00Z'))
+      ).toBeNull();
+    });
+  });
+
+  describe('selectSettlementToken', () => {
+    const settlement = (policy: SettlementConfig['policy']): SettlementConfig => ({
+      policy,
+      settlementToken: 'USDC',
+      networkDefaults: { Solana: 'SOL', Arbitrum: 'USDC' },
+    });
+
+    it('should pay in a supported quote asset', () => {
+      expect(
+        CommissionCalculator.selectSettlementToken('USDT', 'Arbitrum', settlement('QUOTE_ASSET'))
+      ).toBe('USDT');
+    });
+
+    it('should fall back to the settlement token for unsupported quote assets', () => {
+      expect(
+        CommissionCalculator.selectSettlementToken('BONK', 'Solana', settlement('QUOTE_ASSET'))
+      ).toBe('USDC');
+    });
+
+    it('should always use the settlement stablecoin', () => {
+      expect(
+        CommissionCalculator.selectSettlementToken(
+          'ETH',
+          'Arbitrum',
+          settlement('SETTLEMENT_STABLECOIN')
+        )
+      ).toBe('USDC');
+    });
+
+    it('should use the network default token', () => {
+      expect(
+        CommissionCalculator.selectSettlementToken('USDC', 'Solana', settlement('NETWORK_DEFAULT'))
+      ).toBe('SOL');
     });
   });
 });
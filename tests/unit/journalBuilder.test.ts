@@ -0,0 +1,244 @@
+import { Decimal } from 'decimal.js';
+import { JournalBuilder } from '../../src/utils/journalBuilder';
+import {
+  Commission,
+  CommissionStatus,
+  JournalEntryDraft,
+  JournalEntryType,
+  LedgerAccount,
+  Trade,
+  TradeStatus,
+} from '../../src/types';
+
+/**
+ * Unit Tests for the Journal Builder
+ *
+ * Tests the ledger postings of trade lifecycle events:
+ * - Trade fees split into rebates, commissions, dust and platform revenue
+ * - Settlement, reversal and claim postings
+ * - Every entry balances
+ */
+
+describe('JournalBuilder', () => {
+  const mockTrade: Trade = {
+    id: 'trade-1',
+    userId: 'trader',
+    tradeType: 'SPOT',
+    baseAsset: 'BTC',
+    quoteAsset: 'USDC',
+    side: 'BUY',
+    volume: new Decimal(1),
+    price: new Decimal(50000),
+    liquidityRole: 'TAKER',
+    quoteUsdRate: new Decimal(1),
+    usdValue: new Decimal(50000),
+    feeRate: new Decimal(0.009),
+    feeAmount: new Decimal(500),
+    netFeeAmount: new Decimal(450),
+    rebateAmount: new Decimal(50),
+    kickbackAmount: new Decimal(0),
+    chain: 'EVM',
+    network: 'Arbitrum',
+    status: TradeStatus.COMPLETED,
+    settledAt: new Date(),
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  const createMockCommission = (overrides: Partial<Commission> = {}): Commission => ({
+    id: 'commission-1',
+    amount: new Decimal(135),
+    tokenType: 'USDC',
+    commissionLevel: 1,
+    rate: new Decimal(0.3),
+    earnerId: 'level1',
+    sourceUserId: 'trader',
+    tradeId: 'trade-1',
+    originalFeeAmount: new Decimal(500),
+    status: CommissionStatus.UNCLAIMED,
+    conversionRate: new Decimal(1),
+    sourceToken: 'USD',
+    sourceAmount: new Decimal(135),
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  });
+
+  const balanceOf = (entry: JournalEntryDraft, account: LedgerAccount, userId?: string) =>
+    entry.lines
+      .filter((line) => line.account === account && (!userId || line.userId === userId))
+      .reduce((total, line) => total.add(line.amount), new Decimal(0));
+
+  describe('buildTradeEntry', () => {
+    it('should split the fee into rebates, commissions and platform revenue', () => {
+      const entry = JournalBuilder.buildTradeEntry(
+        mockTrade,
+        [createMockCommission()],
+        new Map(),
+        []
+      );
+
+      expect(entry.type).toBe(JournalEntryType.TRADE);
+      expect(JournalBuilder.getImbalance(entry).toString()).toBe('0');
+      expect(balanceOf(entry, LedgerAccount.TRADER_FEES, 'trader').toString()).toBe('500');
+      expect(balanceOf(entry, LedgerAccount.TRADER_REBATES, 'trader').toString()).toBe('-50');
+      expect(balanceOf(entry, LedgerAccount.COMMISSIONS_PAYABLE, 'level1').toString()).toBe(
+        '-135'
+      );
+      expect(balanceOf(entry, LedgerAccount.PLATFORM_REVENUE).toString()).toBe('-315');
+    });
+
+    it('should credit commissions of pending trades to the pending account', () => {
+      const entry = JournalBuilder.buildTradeEntry(
+        { ...mockTrade, status: TradeStatus.PENDING },
+        [createMockCommission({ status: CommissionStatus.PENDING })],
+        new Map(),
+        []
+      );
+
+      expect(balanceOf(entry, LedgerAccount.COMMISSIONS_PENDING, 'level1').toString()).toBe(
+        '-135'
+      );
+      expect(balanceOf(entry, LedgerAccount.COMMISSIONS_PAYABLE).toString()).toBe('0');
+    });
+
+    it('should book dust changes and skipped shares', () => {
+      const entry = JournalBuilder.buildTradeEntry(
+        mockTrade,
+        [createMockCommission()],
+        new Map([['level3', new Decimal(0.004)]]),
+        [{ level: 2, skippedUserId: 'level2', amount: new Decimal(13.5), reason: 'TEAM_MEMBER' }]
+      );
+
+      expect(JournalBuilder.getImbalance(entry).toString()).toBe('0');
+      expect(balanceOf(entry, LedgerAccount.COMMISSION_DUST, 'level3').toString()).toBe('-0.004');
+
+      const teamMemberShare = entry.lines.find((line) => line.reason === 'TEAM_MEMBER');
+      expect(teamMemberShare!.amount.toString()).toBe('-13.5');
+      const retained = entry.lines.find((line) => line.reason === 'RETAINED');
+      expect(retained!.amount.toString()).toBe('-301.496');
+    });
+
+    it('should post the USD value of commissions settled in other tokens', () => {
+      const entry = JournalBuilder.buildTradeEntry(
+        mockTrade,
+        [
+          createMockCommission({
+            amount: new Decimal(0.9),
+            tokenType: 'SOL',
+            conversionRate: new Decimal(1).div(150),
+            sourceAmount: new Decimal(135),
+          }),
+        ],
+        new Map(),
+        []
+      );
+
+      expect(balanceOf(entry, LedgerAccount.COMMISSIONS_PAYABLE, 'level1').toString()).toBe(
+        '-135'
+      );
+    });
+  });
+
+  describe('buildSettlementEntry', () => {
+    it('should move released commissions from pending to payable', () => {
+      const entry = JournalBuilder.buildSettlementEntry('trade-1', [
+        createMockCommission({ status: CommissionStatus.PENDING }),
+      ]);
+
+      expect(JournalBuilder.getImbalance(entry).toString()).toBe('0');
+      expect(balanceOf(entry, LedgerAccount.COMMISSIONS_PENDING, 'level1').toString()).toBe('135');
+      expect(balanceOf(entry, LedgerAccount.COMMISSIONS_PAYABLE, 'level1').toString()).toBe(
+        '-135'
+      );
+    });
+  });
+
+  describe('buildVoidEntry', () => {
+    it('should refund the fee and take back voided commissions', () => {
+      const entry = JournalBuilder.buildVoidEntry(
+        JournalEntryType.TRADE_REVERSAL,
+        mockTrade,
+        [createMockCommission({ amount: new Decimal(135.006), dustAmount: new Decimal(0.006) })],
+        [],
+        new Map()
+      );
+
+      expect(JournalBuilder.getImbalance(entry).toString()).toBe('0');
+      expect(balanceOf(entry, LedgerAccount.TRADER_FEES, 'trader').toString()).toBe('-500');
+      expect(balanceOf(entry, LedgerAccount.TRADER_REBATES, 'trader').toString()).toBe('50');
+      expect(balanceOf(entry, LedgerAccount.COMMISSIONS_PAYABLE, 'level1').toString()).toBe('135');
+      // Dust paid out with the commission goes back to the dust balance
+      expect(balanceOf(entry, LedgerAccount.COMMISSION_DUST, 'level1').toString()).toBe('-0.006');
+      expect(entry.lines.find((line) => line.reason === 'TRADE_REVERSED')).toBeDefined();
+    });
+
+    it('should charge clawbacks of claimed commissions to the earner', () => {
+      const entry = JournalBuilder.buildVoidEntry(
+        JournalEntryType.TRADE_REVERSAL,
+        mockTrade,
+        [],
+        [createMockCommission({ amount: new Decimal(-135), sourceAmount: new Decimal(-135) })],
+        new Map()
+      );
+
+      expect(JournalBuilder.getImbalance(entry).toString()).toBe('0');
+      expect(balanceOf(entry, LedgerAccount.COMMISSIONS_PAYABLE, 'level1').toString()).toBe('135');
+      expect(balanceOf(entry, LedgerAccount.PLATFORM_REVENUE).toString()).toBe('315');
+    });
+
+    it('should take back the dust a reversed trade only accrued', () => {
+      const entry = JournalBuilder.buildVoidEntry(
+        JournalEntryType.TRADE_REVERSAL,
+        mockTrade,
+        [],
+        [],
+        new Map([['level2', new Decimal(0.003)]])
+      );
+
+      expect(JournalBuilder.getImbalance(entry).toString()).toBe('0');
+      expect(balanceOf(entry, LedgerAccount.COMMISSION_DUST, 'level2').toString()).toBe('0.003');
+      expect(balanceOf(entry, LedgerAccount.PLATFORM_REVENUE).toString()).toBe('449.997');
+    });
+  });
+
+  describe('buildClaimEntry', () => {
+    it('should move claimed commissions to payout clearing', () => {
+      const entry = JournalBuilder.buildClaimEntry('claim-1', 'level1', [
+        createMockCommission(),
+        createMockCommission({ id: 'commission-2', sourceAmount: new Decimal(15) }),
+      ]);
+
+      expect(entry.claimId).toBe('claim-1');
+      expect(JournalBuilder.getImbalance(entry).toString()).toBe('0');
+      expect(balanceOf(entry, LedgerAccount.COMMISSIONS_PAYABLE, 'level1').toString()).toBe('150');
+      expect(balanceOf(entry, LedgerAccount.PAYOUT_CLEARING, 'level1').toString()).toBe('-150');
+    });
+  });
+
+  describe('buildAdjustmentEntry', () => {
+    it('should fund adjustments from platform revenue', () => {
+      const entry = JournalBuilder.buildAdjustmentEntry('trade-1', [
+        createMockCommission({ sourceAmount: new Decimal(90) }),
+      ]);
+
+      expect(JournalBuilder.getImbalance(entry).toString()).toBe('0');
+      expect(balanceOf(entry, LedgerAccount.PLATFORM_REVENUE).toString()).toBe('90');
+    });
+  });
+
+  describe('buildOpeningBalanceEntry', () => {
+    it('should open per-user balances against platform revenue', () => {
+      const entry = JournalBuilder.buildOpeningBalanceEntry([
+        { account: LedgerAccount.TRADER_FEES, userId: 'trader', amount: new Decimal(500) },
+        { account: LedgerAccount.COMMISSIONS_PAYABLE, userId: 'referrer', amount: new Decimal(-150) },
+        { account: LedgerAccount.COMMISSION_DUST, userId: 'referrer', amount: new Decimal(0) },
+      ]);
+
+      expect(entry.type).toBe(JournalEntryType.OPENING_BALANCE);
+      expect(JournalBuilder.getImbalance(entry).toString()).toBe('0');
+      expect(entry.lines).toHaveLength(3);
+      expect(balanceOf(entry, LedgerAccount.PLATFORM_REVENUE).toString()).toBe('-350');
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import { StaticPriceSource } from '../../src/services/priceSource';
+
+/**
+ * Unit Tests for Price Sources
+ *
+ * Tests USD rate resolution for trade valuation:
+ * - Fixed rates
+ * - Time-effective rates
+ * - Unknown assets
+ */
+
+describe('StaticPriceSource', () => {
+  const priceSource = new StaticPriceSource({
+    USDC: 1,
+    SOL: [
+      { from: '2026-01-01T00:00:00Z', rate: 150 },
+      { from: '2026-03-01T00:00:00Z', rate: 180 },
+    ],
+  });
+
+  it('should return a fixed rate for any time', async () => {
+    const rate = await priceSource.getUsdRate('USDC', new Date('2020-01-01T00:00:00Z'));
+
+    expect(rate!.toString()).toBe('1');
+  });
+
+  it('should return the rate in effect at the given time', async () => {
+    const february = await priceSource.getUsdRate('SOL', new Date('2026-02-15T00:00:00Z'));
+    const april = await priceSource.getUsdRate('SOL', new Date('2026-04-01T00:00:00Z'));
+
+    expect(february!.toString()).toBe('150');
+    expect(april!.toString()).toBe('180');
+  });
+
+  it('should return null before the first known rate', async () => {
+    const rate = await priceSource.getUsdRate('SOL', new Date('2025-12-31T00:00:00Z'));
+
+    expect(rate).toBeNull();
+  });
+
+  it('should return null for unknown assets', async () => {
+    const rate = await priceSource.getUsdRate('BONK', new Date());
+
+    expect(rate).toBeNull();
+  });
+
+  it('should tell known assets from unknown ones', async () => {
+    expect(await priceSource.hasAsset('SOL')).toBe(true);
+    expect(await priceSource.hasAsset('BONK')).toBe(false);
+  });
+});
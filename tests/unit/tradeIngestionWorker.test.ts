@@ -0,0 +1,173 @@
+import { TradeIngestionWorker } from '../../src/services/tradeIngestionWorker';
+import { DatabaseService } from '../../src/services/database';
+import { ReferralService } from '../../src/services/referralService';
+import { ErrorUtils } from '../../src/utils/helpers';
+import { ingestionConfig } from '../../src/config';
+import {
+  TradeInboxEntry,
+  TradeInboxStatus,
+  TradeStatus,
+  TradeWebhookResponse,
+} from '../../src/types';
+
+/**
+ * Unit Tests for the Trade Ingestion Worker
+ *
+ * Tests the retry schedule applied to failed inbox entries:
+ * - Delays double with every attempt
+ * - Delays are capped at the configured maximum
+ * - Entries are completed, retried with backoff or dead-lettered
+ */
+
+describe('TradeIngestionWorker', () => {
+  describe('getRetryDelay', () => {
+    it('should start at the base delay after the first attempt', () => {
+      expect(TradeIngestionWorker.getRetryDelay(1)).toBe(ingestionConfig.baseRetryDelayMs);
+    });
+
+    it('should double the delay with each attempt', () => {
+      expect(TradeIngestionWorker.getRetryDelay(2)).toBe(ingestionConfig.baseRetryDelayMs * 2);
+      expect(TradeIngestionWorker.getRetryDelay(4)).toBe(ingestionConfig.baseRetryDelayMs * 8);
+    });
+
+    it('should cap the delay at the configured maximum', () => {
+      expect(TradeIngestionWorker.getRetryDelay(50)).toBe(ingestionConfig.maxRetryDelayMs);
+    });
+  });
+
+  describe('runOnce', () => {
+    const now = new Date('2024-01-01T00:00:00Z').getTime();
+
+    const createEntry = (attempts: number): TradeInboxEntry => ({
+      id: 'entry-1',
+      payload: {
+        userId: 'trader',
+        tradeType: 'SPOT',
+        baseAsset: 'BTC',
+        quoteAsset: 'USDC',
+        side: 'BUY',
+        volume: '1',
+        price: '50000',
+        chain: 'EVM',
+        network: 'Arbitrum',
+      },
+      status: TradeInboxStatus.PROCESSING,
+      attempts,
+      nextAttemptAt: new Date(now),
+      createdAt: new Date(now),
+      updatedAt: new Date(now),
+    });
+
+    let db: {
+      releaseStaleTradeInboxEntries: jest.Mock;
+      claimDueTradeInboxEntries: jest.Mock;
+      completeTradeInboxEntry: jest.Mock;
+      failTradeInboxEntry: jest.Mock;
+    };
+    let referralService: { initialize: jest.Mock; processTradeWebhook: jest.Mock };
+    let worker: TradeIngestionWorker;
+
+    const runWith = async (entry: TradeInboxEntry, outcome: () => Promise<any>) => {
+      db.claimDueTradeInboxEntries.mockResolvedValue([entry]);
+      referralService.processTradeWebhook.mockImplementation(outcome);
+      return worker.runOnce();
+    };
+
+    beforeEach(() => {
+      jest.spyOn(Date, 'now').mockReturnValue(now);
+      db = {
+        releaseStaleTradeInboxEntries: jest.fn().mockResolvedValue(0),
+        claimDueTradeInboxEntries: jest.fn(),
+        completeTradeInboxEntry: jest.fn().mockResolvedValue(undefined),
+        failTradeInboxEntry: jest.fn().mockResolvedValue(undefined),
+      };
+      referralService = {
+        initialize: jest.fn().mockResolvedValue(undefined),
+        processTradeWebhook: jest.fn(),
+      };
+      worker = new TradeIngestionWorker(
+        referralService as unknown as ReferralService,
+        db as unknown as DatabaseService
+      );
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should complete an entry that processes successfully', async () => {
+      const result: TradeWebhookResponse = {
+        tradeId: 'trade-1',
+        status: 'SUCCESS',
+        tradeStatus: TradeStatus.COMPLETED,
+        commissionsDistributed: [],
+      };
+
+      const processed = await runWith(createEntry(1), async () => result);
+
+      expect(processed).toBe(1);
+      expect(db.completeTradeInboxEntry).toHaveBeenCalledWith('entry-1', result);
+      expect(db.failTradeInboxEntry).not.toHaveBeenCalled();
+    });
+
+    it('should retry a transient failure with backoff', async () => {
+      await runWith(createEntry(3), async () => {
+        throw ErrorUtils.createApiError('PRICE_UNAVAILABLE', 'Price unavailable');
+      });
+
+      expect(db.failTradeInboxEntry).toHaveBeenCalledWith(
+        'entry-1',
+        { code: 'PRICE_UNAVAILABLE', message: 'Price unavailable', retryable: true },
+        new Date(now + TradeIngestionWorker.getRetryDelay(3))
+      );
+    });
+
+    it('should retry transient database errors', async () => {
+      await runWith(createEntry(1), async () => {
+        throw Object.assign(new Error('Write conflict'), { code: 'P2034' });
+      });
+
+      expect(db.failTradeInboxEntry.mock.calls[0][1].code).toBe('DATABASE_ERROR');
+      expect(db.failTradeInboxEntry.mock.calls[0][2]).toEqual(
+        new Date(now + ingestionConfig.baseRetryDelayMs)
+      );
+    });
+
+    it('should dead-letter a transient failure at maxAttempts', async () => {
+      await runWith(createEntry(ingestionConfig.maxAttempts), async () => {
+        throw ErrorUtils.createApiError('PRICE_UNAVAILABLE', 'Price unavailable');
+      });
+
+      expect(db.failTradeInboxEntry.mock.calls[0][2]).toBeNull();
+    });
+
+    it('should dead-letter permanent database errors straight away', async () => {
+      await runWith(createEntry(1), async () => {
+        throw Object.assign(new Error('Foreign key constraint failed'), { code: 'P2003' });
+      });
+
+      expect(db.failTradeInboxEntry.mock.calls[0][1]).toMatchObject({
+        code: 'DATABASE_ERROR',
+        retryable: false,
+      });
+      expect(db.failTradeInboxEntry.mock.calls[0][2]).toBeNull();
+    });
+
+    it('should dead-letter trades quoted in an unsupported asset', async () => {
+      await runWith(createEntry(1), async () => {
+        throw ErrorUtils.createApiError('UNSUPPORTED_ASSET', 'Asset is not covered');
+      });
+
+      expect(db.failTradeInboxEntry.mock.calls[0][1].retryable).toBe(false);
+      expect(db.failTradeInboxEntry.mock.calls[0][2]).toBeNull();
+    });
+
+    it('should dead-letter permanent API errors straight away', async () => {
+      await runWith(createEntry(1), async () => {
+        throw ErrorUtils.createApiError('USER_NOT_FOUND', 'User not found');
+      });
+
+      expect(db.failTradeInboxEntry.mock.calls[0][2]).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,145 @@
+import { Request, Response, NextFunction } from 'express';
+import { verifyWebhookSignature } from '../../src/middleware/auth';
+import { WebhookSignatureUtils } from '../../src/utils/helpers';
+import { webhookConfig } from '../../src/config';
+
+// Nonces are recorded in the database; stand in for it with an in-memory table
+const recordedNonces = new Set<string>();
+jest.mock('../../src/services/database', () => ({
+  DatabaseService: jest.fn().mockImplementation(() => ({
+    recordWebhookNonce: jest.fn(async (nonce: string) => {
+      if (recordedNonces.has(nonce)) return false;
+      recordedNonces.add(nonce);
+      return true;
+    }),
+    deleteExpiredWebhookNonces: jest.fn().mockResolvedValue(0),
+  })),
+}));
+
+/**
+ * Unit Tests for Webhook Signature Verification
+ *
+ * Tests the HMAC signing scheme and the middleware guarding webhook routes:
+ * - Valid signatures are accepted
+ * - Tampered bodies, stale and malformed timestamps are rejected
+ * - Nonces cannot be replayed
+ */
+
+describe('verifyWebhookSignature', () => {
+  const secret = 'unit-test-webhook-secret';
+  const rawBody = JSON.stringify({ userId: 'user-1', volume: '15.0', price: '50000' });
+  let nonceCounter = 0;
+
+  beforeAll(() => {
+    webhookConfig.signingSecret = secret;
+  });
+
+  const createSignedRequest = (
+    overrides: { body?: string; timestamp?: string; nonce?: string; signature?: string } = {}
+  ): Request => {
+    const timestamp = overrides.timestamp ?? Math.floor(Date.now() / 1000).toString();
+    const nonce = overrides.nonce ?? `nonce-${++nonceCounter}`;
+    const signature =
+      overrides.signature ?? WebhookSignatureUtils.sign(secret, timestamp, nonce, rawBody);
+
+    const headers: Record<string, string> = {
+      [webhookConfig.headers.timestamp]: timestamp,
+      [webhookConfig.headers.nonce]: nonce,
+      [webhookConfig.headers.signature]: signature,
+    };
+
+    return {
+      rawBody: Buffer.from(overrides.body ?? rawBody),
+      get: (name: string) => headers[name.toLowerCase()],
+    } as unknown as Request;
+  };
+
+  const createMockResponse = () => {
+    const res: any = {};
+    res.status = jest.fn().mockReturnValue(res);
+    res.json = jest.fn().mockReturnValue(res);
+    return res as Response & { status: jest.Mock; json: jest.Mock };
+  };
+
+  it('should accept a correctly signed request', async () => {
+    const res = createMockResponse();
+    const next: NextFunction = jest.fn();
+
+    await verifyWebhookSignature(createSignedRequest(), res, next);
+
+    expect(next).toHaveBeenCalled();
+    expect(res.status).not.toHaveBeenCalled();
+  });
+
+  it('should reject a request with missing signature headers', async () => {
+    const res = createMockResponse();
+    const next: NextFunction = jest.fn();
+    const req = { rawBody: Buffer.from(rawBody), get: () => undefined } as unknown as Request;
+
+    await verifyWebhookSignature(req, res, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(res.json.mock.calls[0][0].error).toBe('MISSING_WEBHOOK_SIGNATURE');
+  });
+
+  it('should reject a request whose body does not match the signature', async () => {
+    const res = createMockResponse();
+    const next: NextFunction = jest.fn();
+
+    await verifyWebhookSignature(
+      createSignedRequest({ body: rawBody.replace('15.0', '1500.0') }),
+      res,
+      next
+    );
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(res.json.mock.calls[0][0].error).toBe('INVALID_WEBHOOK_SIGNATURE');
+  });
+
+  it('should reject a timestamp outside the tolerance window', async () => {
+    const res = createMockResponse();
+    const next: NextFunction = jest.fn();
+    const staleTimestamp = Math.floor(
+      (Date.now() - webhookConfig.signatureToleranceMs - 60 * 1000) / 1000
+    ).toString();
+
+    await verifyWebhookSignature(createSignedRequest({ timestamp: staleTimestamp }), res, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(res.json.mock.calls[0][0].error).toBe('WEBHOOK_TIMESTAMP_OUT_OF_RANGE');
+  });
+
+  it.each([
+    ['trailing characters', `${Math.floor(Date.now() / 1000)}abc`],
+    ['exponent notation', '17e8'],
+    ['a sign', `+${Math.floor(Date.now() / 1000)}`],
+  ])('should reject a timestamp with %s', async (_, timestamp) => {
+    const res = createMockResponse();
+    const next: NextFunction = jest.fn();
+
+    await verifyWebhookSignature(createSignedRequest({ timestamp }), res, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(res.json.mock.calls[0][0].error).toBe('WEBHOOK_TIMESTAMP_OUT_OF_RANGE');
+  });
+
+  it('should reject a replayed nonce', async () => {
+    const req = createSignedRequest({ nonce: 'replayed-nonce' });
+
+    const firstNext: NextFunction = jest.fn();
+    await verifyWebhookSignature(req, createMockResponse(), firstNext);
+    expect(firstNext).toHaveBeenCalled();
+
+    const res = createMockResponse();
+    const next: NextFunction = jest.fn();
+    await verifyWebhookSignature(req, res, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(res.json.mock.calls[0][0].error).toBe('WEBHOOK_REPLAY_DETECTED');
+  });
+});